@@ -0,0 +1,143 @@
+import { Particle } from "./Particle";
+import { IEmitterParams, IParticleParams, TViewport } from "../types";
+import { pickFromRange } from "../utils/config";
+import { TRandom } from "../utils/random";
+
+/**
+ * Emitter class that spawns particles over time from a position.
+ * Used for effects like fountains, smoke, sparks or confetti bursts.
+ */
+export class Emitter {
+  private timer: number = 0; // Milliseconds since the last spawn
+  private burstDone: boolean = false;
+  private alive: Particle[] = []; // Spawned particles that may still be alive, tracked with 'max'
+
+  /**
+   * Creates an instance of the Emitter.
+   * @param e The emitter configuration.
+   * @param viewport The logical size of the canvas, used for percentage positions.
+   * @param random (Optional) Random number generator for spawn variation.
+   */
+  constructor(
+    private e: IEmitterParams,
+    private viewport: TViewport,
+    private random: TRandom = Math.random,
+  ) {}
+
+  /**
+   * Advances the emitter and spawns the particles that are due.
+   * @param delta Factor to normalize speed across different frame rates (1.0 at 60fps).
+   * @param config The engine configuration the particles are created with.
+   * @param index The index of the first spawned particle, used for sequential colors.
+   * @param room (Optional) The most particles the simulation has room for.
+   * @returns The newly spawned particles.
+   */
+  update(
+    delta: number,
+    config: Required<IParticleParams>,
+    index: number,
+    room: number = Infinity,
+  ): Particle[] {
+    let count = 0;
+
+    // Spawn the burst once, on the first update
+    if (!this.burstDone) {
+      this.burstDone = true;
+      count += this.e.burst ?? 0;
+    }
+
+    // Spawn 'quantity' particles every 'delay' seconds
+    const rate = this.e.rate;
+    if (rate && rate.quantity > 0 && rate.delay > 0) {
+      const delayMs = rate.delay * 1000;
+      this.timer += delta * (1000 / 60);
+      while (this.timer >= delayMs) {
+        this.timer -= delayMs;
+        count += rate.quantity;
+      }
+    }
+
+    // Particles that are due while the emitter or the simulation is full are skipped
+    if (this.e.max !== undefined) {
+      this.alive = this.alive.filter((p) => !p.dead);
+      count = Math.min(count, this.e.max - this.alive.length);
+    }
+    count = Math.min(count, room);
+
+    const spawned: Particle[] = [];
+    for (let i = 0; i < count; i++) {
+      spawned.push(this.spawn(config, index + i));
+    }
+    if (this.e.max !== undefined) this.alive.push(...spawned);
+    return spawned;
+  }
+
+  /**
+   * Creates a single particle within the spawn area.
+   * @param config The engine configuration the particle is created with.
+   * @param index The index of the particle, used for sequential colors.
+   * @returns The spawned particle.
+   */
+  private spawn(config: Required<IParticleParams>, index: number): Particle {
+    const particle = new Particle(
+      this.viewport,
+      config,
+      this.getSpawnPosition(),
+      index,
+      this.random,
+    );
+
+    // Override the configured velocity with the emitter's direction and spread
+    if (this.e.direction) {
+      const { angle, spread } = this.e.direction;
+      const degrees = angle + (this.random() - 0.5) * spread;
+      const radians = (degrees * Math.PI) / 180;
+      const speed = pickFromRange(
+        this.e.speed ?? config.move.speed,
+        this.random,
+      );
+      particle.vx = Math.cos(radians) * speed;
+      particle.vy = Math.sin(radians) * speed;
+    }
+
+    if (this.e.life) {
+      const { duration, fadeOut, shrinkOut } = this.e.life;
+      particle.setLifetime(
+        pickFromRange(duration, this.random) * 1000,
+        fadeOut,
+        shrinkOut,
+      );
+    }
+
+    return particle;
+  }
+
+  /**
+   * Picks a random position within the emitter's spawn area.
+   * @returns The position in logical (CSS) pixels.
+   */
+  private getSpawnPosition() {
+    const { position, spawn } = this.e;
+    const percent = position.unit !== "px"; // Percentages are the default
+    const x = percent ? (position.x / 100) * this.viewport.width : position.x;
+    const y = percent ? (position.y / 100) * this.viewport.height : position.y;
+
+    if (!spawn || spawn.shape === "point") return { x, y };
+
+    if (spawn.shape === "circle") {
+      // Uniform distribution within an ellipse
+      const angle = this.random() * Math.PI * 2;
+      const dist = Math.sqrt(this.random());
+      return {
+        x: x + Math.cos(angle) * dist * (spawn.width / 2),
+        y: y + Math.sin(angle) * dist * (spawn.height / 2),
+      };
+    }
+
+    // Rectangle centered on the position
+    return {
+      x: x + (this.random() - 0.5) * spawn.width,
+      y: y + (this.random() - 0.5) * spawn.height,
+    };
+  }
+}
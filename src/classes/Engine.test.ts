@@ -0,0 +1,224 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { Engine } from "./Engine";
+import { IClock, IParticleParams } from "../types";
+
+/**
+ * A clock that only advances when a frame is run by hand.
+ */
+const createFakeClock = () => {
+  const pending = new Map<number, (time: number) => void>();
+  let nextId = 1;
+  let time = 0;
+  const clock: IClock = {
+    now: () => time,
+    requestFrame: (callback) => {
+      pending.set(nextId, callback);
+      return nextId++;
+    },
+    cancelFrame: (id) => {
+      pending.delete(id);
+    },
+  };
+  const frame = (ms: number = 16) => {
+    time += ms;
+    const callbacks = Array.from(pending.values());
+    pending.clear();
+    callbacks.forEach((callback) => callback(time));
+  };
+  return { clock, frame, pending };
+};
+
+const noop = () => {};
+
+// A context that accepts every call and property, the renderer's output isn't checked here
+const createContext = () =>
+  new Proxy({} as Record<string | symbol, unknown>, {
+    get: (target, key) => (key in target ? target[key] : noop),
+  });
+
+type TListeners = Record<string, (e: Partial<PointerEvent>) => void>;
+
+const createCanvas = (listeners: TListeners = {}) =>
+  ({
+    width: 0,
+    height: 0,
+    offsetWidth: 200,
+    offsetHeight: 200,
+    getContext: createContext,
+    getBoundingClientRect: () => ({ left: 0, top: 0 }),
+    addEventListener: (type: string, listener: TListeners[string]) =>
+      (listeners[type] = listener),
+    removeEventListener: noop,
+  }) as unknown as HTMLCanvasElement;
+
+const params: IParticleParams = {
+  number: { value: 5, density: { enable: false, area: 800 } },
+  depthBlur: { enable: false, focus: 0.1, maxBlur: 0 },
+};
+
+describe("Engine", () => {
+  beforeEach(() => {
+    const matchMedia = () => ({
+      matches: false,
+      addEventListener: noop,
+      removeEventListener: noop,
+    });
+    vi.stubGlobal("window", {
+      devicePixelRatio: 1,
+      matchMedia,
+      addEventListener: noop,
+      removeEventListener: noop,
+    });
+    vi.stubGlobal("document", {
+      visibilityState: "visible",
+      addEventListener: noop,
+      removeEventListener: noop,
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("runs a single render loop that steps once per frame", () => {
+    const { clock, frame, pending } = createFakeClock();
+    const onFrame = vi.fn();
+    const engine = new Engine(
+      createCanvas(),
+      params,
+      "default",
+      undefined,
+      clock,
+      { onFrame },
+    );
+    expect(pending.size).toBe(1);
+
+    frame(); // The first frame only starts the timer
+    for (let i = 0; i < 10; i++) frame();
+    expect(onFrame).toHaveBeenCalledTimes(10);
+    expect(onFrame).toHaveBeenLastCalledWith(
+      expect.objectContaining({ delta: 16 }),
+    );
+    expect(pending.size).toBe(1);
+
+    engine.destroy();
+    expect(pending.size).toBe(0);
+  });
+
+  it("reports the real frame rate, even when the step is capped", () => {
+    const { clock, frame } = createFakeClock();
+    const onFrame = vi.fn();
+    const engine = new Engine(
+      createCanvas(),
+      params,
+      "default",
+      undefined,
+      clock,
+      { onFrame },
+    );
+
+    frame();
+    frame(250); // e.g. after a hiccup
+    expect(onFrame).toHaveBeenLastCalledWith(
+      expect.objectContaining({ delta: 16.67, fps: 4 }),
+    );
+    engine.destroy();
+  });
+
+  it("stops and restarts the loop on pause and play", () => {
+    const { clock, frame, pending } = createFakeClock();
+    const onFrame = vi.fn();
+    const engine = new Engine(
+      createCanvas(),
+      params,
+      "default",
+      undefined,
+      clock,
+      { onFrame },
+    );
+
+    engine.pause();
+    expect(pending.size).toBe(0);
+    engine.play();
+    engine.play();
+    expect(pending.size).toBe(1);
+
+    frame();
+    frame();
+    expect(onFrame).toHaveBeenCalledTimes(1);
+    engine.destroy();
+  });
+
+  it("draws a still frame for changes while paused", () => {
+    const onFrame = vi.fn();
+    const engine = new Engine(
+      createCanvas(),
+      params,
+      "default",
+      undefined,
+      createFakeClock().clock,
+      { onFrame },
+    );
+    engine.pause();
+    onFrame.mockClear();
+
+    engine.addParticles(2);
+    engine.setParams({ color: { value: "#ff0000" } });
+    expect(onFrame).toHaveBeenCalledTimes(2);
+    expect(onFrame).toHaveBeenLastCalledWith(
+      expect.objectContaining({ delta: 0, particles: 7 }),
+    );
+    engine.destroy();
+  });
+
+  it("works without matchMedia", () => {
+    vi.stubGlobal("window", {
+      devicePixelRatio: 1,
+      addEventListener: noop,
+      removeEventListener: noop,
+    });
+    const { clock, pending } = createFakeClock();
+    const engine = new Engine(
+      createCanvas(),
+      params,
+      "default",
+      undefined,
+      clock,
+    );
+    expect(pending.size).toBe(1);
+    engine.destroy();
+  });
+
+  it("only treats primary presses as clicks", () => {
+    const listeners: TListeners = {};
+    const onParticleSpawn = vi.fn();
+    const engine = new Engine(
+      createCanvas(listeners),
+      params, // The default preset pushes particles on click
+      "default",
+      undefined,
+      createFakeClock().clock,
+      { onParticleSpawn },
+    );
+    onParticleSpawn.mockClear();
+
+    const press = (e: Partial<PointerEvent>) => {
+      const event = {
+        pointerId: 1,
+        clientX: 50,
+        clientY: 50,
+        timeStamp: 0,
+        ...e,
+      };
+      listeners.pointerdown(event);
+      listeners.pointerup(event);
+    };
+    press({ pointerType: "mouse", button: 2, isPrimary: true });
+    press({ pointerType: "touch", button: 0, isPrimary: false });
+    expect(onParticleSpawn).not.toHaveBeenCalled();
+
+    press({ pointerType: "mouse", button: 0, isPrimary: true });
+    expect(onParticleSpawn).toHaveBeenCalled();
+    engine.destroy();
+  });
+});
@@ -1,24 +1,48 @@
-import { Particle } from "./Particle";
-import { IParticleParams, TPresets } from "../types";
+import { Simulation } from "./Simulation";
+import { CanvasRenderer } from "./Renderer";
+import {
+  IClock,
+  IParticleEvents,
+  IParticleParams,
+  TPresets,
+  TViewport,
+} from "../types";
 import { DEFAULTS } from "../lib/defaults";
 import { deepMerge } from "../utils/config";
-import { applyAttraction } from "../utils/physics";
-import { applyInteractions } from "../utils/interaction";
-import { QuadTree, Boundary } from "../utils/QuadTree";
+import { animationFrameClock } from "../utils/clock";
+import { toModeList } from "../utils/interaction";
+
+// A pointer that moves less than this (in pixels) between down and up counts as a tap
+const TAP_MAX_DISTANCE = 10;
+// A touch or pen press shorter than this (in milliseconds) counts as a tap
+const TAP_MAX_DURATION = 300;
 
 /**
- * Engine class to manage particles and rendering. This is where all the magic happens
- * - initializing particles, handling the render loop, and managing interactions.
+ * Engine class that connects the simulation to the browser. This is where all the magic happens
+ * - sizing the canvas, handling the render loop, and translating DOM events into interactions.
+ * The particles themselves live in the DOM-free Simulation.
  */
 export class Engine {
-  private particles: Particle[] = [];
+  private simulation: Simulation;
+  private renderer: CanvasRenderer;
   private ctx: CanvasRenderingContext2D;
   private config: Required<IParticleParams>;
-  private mouse = { x: 0, y: 0, active: false };
+  private eventTarget?: Window | HTMLCanvasElement; // Where the pointer listeners are bound
+  private taps = new Map<number, { x: number; y: number; time: number }>(); // Pointer down info for tap detection
   private animationId: number = 0;
   private canvas: HTMLCanvasElement;
+  private viewport: TViewport = { width: 0, height: 0, pixelRatio: 1 }; // Logical size shared with particles
+  private pixelRatioQuery?: MediaQueryList;
   private lastTimestamp: number = 0;
   private firstFrame: boolean = true;
+  private paused: boolean = false; // Paused through pause()
+  private running: boolean = false; // Whether an animation frame is scheduled
+  private offscreen: boolean = false; // Canvas scrolled out of view
+  private hidden: boolean = false; // Browser tab hidden
+  private destroyed: boolean = false;
+  private intersectionObserver?: IntersectionObserver;
+  private reducedMotionQuery?: MediaQueryList;
+  private prefersReducedMotion: boolean = false;
   private onLoaded?: () => void;
   private loaded = false;
 
@@ -27,15 +51,21 @@ export class Engine {
    * @param canvas The HTML canvas element where particles will be rendered.
    * @param params Configuration parameters for particles.
    * @param preset Preset configuration to use as a base.
+   * @param onLoaded (Optional) Callback fired when all particle images are loaded.
+   * @param clock (Optional) Time source driving the render loop. Defaults to requestAnimationFrame.
+   * @param events (Optional) Callbacks for particle and frame events.
    */
   constructor(
     canvas: HTMLCanvasElement,
     params: IParticleParams,
     preset: TPresets,
     onLoaded?: () => void,
+    private clock: IClock = animationFrameClock,
+    events: IParticleEvents = {},
   ) {
     // Get 2D rendering context
     this.ctx = canvas.getContext("2d", { alpha: true })!;
+    this.renderer = new CanvasRenderer(this.ctx);
 
     // Merge user params with preset defaults, ensuring all fields are populated
     this.config = deepMerge(DEFAULTS[preset], params);
@@ -46,150 +76,251 @@ export class Engine {
 
     // Initial setup
     this.resizeCanvas();
-    this.init();
+    this.simulation = new Simulation(this.config, this.viewport, events);
+    this.waitForImages();
     this.bindEvents();
+    this.watchVisibility();
+    this.watchReducedMotion();
+    this.syncLoop(); // The only place the loop starts, watchers may have started it already
   }
 
   /**
    * Resizes the canvas to match its displayed size.
+   * The backing store is scaled by the device pixel ratio (up to the configured cap),
+   * while the context transform keeps all drawing in CSS pixels.
    */
   private resizeCanvas() {
-    this.canvas.width = this.canvas.offsetWidth;
-    this.canvas.height = this.canvas.offsetHeight;
+    const { enable, max } = this.config.pixelRatio;
+    const ratio = enable
+      ? Math.min(window.devicePixelRatio || 1, Math.max(max, 1))
+      : 1;
+
+    this.viewport.width = this.canvas.offsetWidth;
+    this.viewport.height = this.canvas.offsetHeight;
+    this.viewport.pixelRatio = ratio;
+
+    this.canvas.width = Math.round(this.viewport.width * ratio);
+    this.canvas.height = Math.round(this.viewport.height * ratio);
+    this.ctx.setTransform(ratio, 0, 0, ratio, 0, 0); // Resizing resets the context state
+  }
+
+  /**
+   * Watches for device pixel ratio changes, e.g. when the window moves between monitors.
+   * The media query only matches the current ratio, so it is recreated after every change.
+   */
+  private watchPixelRatio() {
+    if (typeof window.matchMedia !== "function") return;
+    this.pixelRatioQuery?.removeEventListener(
+      "change",
+      this.handlePixelRatioChange,
+    );
+    this.pixelRatioQuery = window.matchMedia(
+      `(resolution: ${window.devicePixelRatio}dppx)`,
+    );
+    this.pixelRatioQuery.addEventListener(
+      "change",
+      this.handlePixelRatioChange,
+    );
   }
 
+  /**
+   * Handles device pixel ratio changes. Particles are kept, since the logical size doesn't change,
+   * only their depth blur sprites are re-rendered at the new ratio.
+   */
+  private handlePixelRatioChange = () => {
+    this.resizeCanvas();
+    this.simulation.invalidateSprites();
+    this.watchPixelRatio();
+    this.drawStillFrame(); // Resizing clears the canvas
+  };
+
   /**
    * Handles window resize events to adjust canvas size and reinitialize particles.
    */
   private handleResize = () => {
     this.resizeCanvas();
-    this.init();
+    this.simulation.init();
+    this.waitForImages();
+    this.drawStillFrame();
   };
 
   /**
-   * Initializes particles based on the current configuration.
+   * Starts loading the particle images and calls onLoaded once all of them are loaded.
    */
-  private init() {
-    this.particles = [];
-    const count = this.calculateParticleCount();
-
-    for (let i = 0; i < count; i++) {
-      this.particles.push(new Particle(this.canvas, this.config));
-    }
-
-    // Wait for all particle images to load before calling onLoaded
-    Promise.all(this.particles.map((p) => p.whenLoaded())).then(() => {
+  private waitForImages() {
+    const { particles } = this.simulation;
+    Promise.all(particles.map((p) => p.whenLoaded())).then(() => {
       if (!this.loaded) {
         this.loaded = true;
         this.onLoaded?.();
       }
+      this.drawStillFrame(); // Show the loaded images if there is no render loop
     });
   }
 
   /**
-   * Calculate the particle count based on density settings.
-   * @returns  The calculated number of particles.
+   * Returns the element that pointer events are detected on, based on configuration.
+   * @returns The window or the canvas element.
    */
-  private calculateParticleCount(): number {
-    const { value, density } = this.config.number;
-    if (!density.enable) return value; // If density is disabled, return the fixed value.
-
-    // Calculate based on canvas area and density area setting
-    const canvasArea = this.canvas.width * this.canvas.height;
-    const densityArea = Math.max(density.area, 0.001) * 1000; // Multiply by 1000 to scale appropriately
-    const count = Math.floor((canvasArea / densityArea) * value);
-
-    // PERFORMANCE CAP: Even if density is 1, don't exceed 2000 particles.
-    // Standard hardware starts lagging around 1500-2000 with interactions.
-    // Might revisit this cap in future versions with optimizations.
-    return Math.min(count, 2000);
+  private getEventTarget(): Window | HTMLCanvasElement {
+    return this.config.interactivity.detect_on === "window"
+      ? window
+      : this.canvas;
   }
 
   /**
    * Binds necessary event listeners for interactivity.
+   * Pointer events cover mouse, touch and pen input with a single set of listeners.
+   * Hovering is detected on the configured target, presses and taps only on the canvas.
    */
   private bindEvents() {
-    // Determine the target for mouse events based on configuration
-    const target =
-      this.config.interactivity.detect_on === "window" ? window : this.canvas;
-    target.addEventListener("mousemove", (e) => this.handleMouseMove(e as any));
-    target.addEventListener("mouseleave", this.handleMouseLeave);
+    const target = this.getEventTarget();
+    this.eventTarget = target;
+    target.addEventListener(
+      "pointermove",
+      this.handlePointerMove as EventListener,
+    );
+    target.addEventListener(
+      "pointerleave",
+      this.handlePointerEnd as EventListener,
+    );
+    this.canvas.addEventListener("pointerdown", this.handlePointerDown);
+    this.canvas.addEventListener("pointerup", this.handlePointerUp);
+    this.canvas.addEventListener("pointercancel", this.handlePointerEnd);
     window.addEventListener("resize", this.handleResize);
-    this.canvas.addEventListener("click", this.handleClick);
+    this.watchPixelRatio();
   }
 
   /**
-   * Handles mouse move events to update the mouse position.
-   * @param e The mouse event.
+   * Converts a pointer event into coordinates relative to the canvas.
+   * @param e The pointer event.
+   * @returns The position of the pointer on the canvas.
    */
-  private handleMouseMove = (e: MouseEvent) => {
+  private getPointerPosition(e: PointerEvent) {
     const rect = this.canvas.getBoundingClientRect();
-    this.mouse.x = e.clientX - rect.left;
-    this.mouse.y = e.clientY - rect.top;
-    this.mouse.active = true;
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  }
+
+  /**
+   * Handles pointer move events to update the position of that pointer.
+   * Mouse pointers hover without being pressed, touch and pen pointers only count while down.
+   * @param e The pointer event.
+   */
+  private handlePointerMove = (e: PointerEvent) => {
+    const pointers = this.simulation.pointers;
+    const pointer = pointers.get(e.pointerId);
+    if (!pointer && e.pointerType !== "mouse") return; // Touch and pen only interact while pressed
+
+    const { x, y } = this.getPointerPosition(e);
+    if (pointer) {
+      pointer.x = x;
+      pointer.y = y;
+      pointer.active = true;
+    } else {
+      pointers.set(e.pointerId, { x, y, active: true });
+    }
+    this.updateHovered();
   };
 
   /**
-   * Handles mouse leave events to deactivate mouse interactions.
-   * @returns void
+   * Handles pointer down events to start tracking a pointer and a possible tap.
+   * Every touch point interacts, but only primary presses can be taps, e.g. not right clicks or a second finger.
+   * @param e The pointer event.
    */
-  private handleMouseLeave = () => (this.mouse.active = false);
+  private handlePointerDown = (e: PointerEvent) => {
+    const { x, y } = this.getPointerPosition(e);
+    this.simulation.pointers.set(e.pointerId, { x, y, active: true });
+    if (e.button !== 0 || !e.isPrimary) return;
+    this.taps.set(e.pointerId, { x, y, time: e.timeStamp });
+  };
 
   /**
-   * Handles click events to add or remove particles based on configuration.
-   * @returns void
+   * Handles pointer up events. A short press that barely moved is treated as a click.
+   * @param e The pointer event.
    */
-  private handleClick = () => {
-    const { onclick } = this.config.interactivity.events;
-    if (!onclick.enable) return; // Do nothing if click interactions are disabled.
-
-    const modes = this.config.interactivity.modes;
-
-    // In original Particles.js, the push mode just adds a fixed number of particles
-    if (onclick.mode === "push") {
-      for (let i = 0; i < modes.push.quantity; i++) {
-        this.particles.push(
-          new Particle(this.canvas, this.config, {
-            x: this.mouse.x,
-            y: this.mouse.y,
-          }),
-        );
+  private handlePointerUp = (e: PointerEvent) => {
+    const tap = this.taps.get(e.pointerId);
+    this.taps.delete(e.pointerId);
+
+    if (tap && e.button === 0 && e.isPrimary) {
+      const { x, y } = this.getPointerPosition(e);
+      const moved = Math.hypot(x - tap.x, y - tap.y);
+      const held = e.timeStamp - tap.time;
+
+      // Mouse clicks have no duration limit, touch taps must be quick
+      if (
+        moved <= TAP_MAX_DISTANCE &&
+        (e.pointerType === "mouse" || held <= TAP_MAX_DURATION)
+      ) {
+        this.handleClick(x, y);
       }
+    }
 
-      // Remove the closest particles to the click position
-    } else if (onclick.mode === "remove") {
-      // Sort particles by distance to mouse click position
-      this.particles.sort((a, b) => {
-        const dxA = a.x - this.mouse.x;
-        const dyA = a.y - this.mouse.y;
-        const distA = dxA * dxA + dyA * dyA;
-        const dxB = b.x - this.mouse.x;
-        const dyB = b.y - this.mouse.y;
-        const distB = dxB * dxB + dyB * dyB;
-        return distA - distB;
-      });
+    // Mouse pointers keep hovering after a click, touch and pen pointers are lifted
+    if (e.pointerType !== "mouse") {
+      this.simulation.pointers.delete(e.pointerId);
+      this.updateHovered();
+    }
+  };
 
-      // Remove the closest 'quantity' particles
-      this.particles.splice(0, modes.remove.quantity);
+  /**
+   * Handles a click or tap on the canvas.
+   * The "pause" mode toggles the render loop, all other modes and particle clicks are handled by the simulation.
+   * @param x The x position of the click.
+   * @param y The y position of the click.
+   */
+  private handleClick(x: number, y: number) {
+    const { onclick } = this.config.interactivity.events;
+    if (onclick.enable && toModeList(onclick.mode).includes("pause")) {
+      if (this.paused) this.play();
+      else this.pause();
     }
+    this.simulation.click(x, y);
+    this.drawStillFrame();
+  }
+
+  /**
+   * Handles pointer cancel and leave events to stop tracking a pointer.
+   * @param e The pointer event.
+   */
+  private handlePointerEnd = (e: PointerEvent) => {
+    this.simulation.pointers.delete(e.pointerId);
+    this.taps.delete(e.pointerId);
+    this.updateHovered();
   };
 
+  /**
+   * Hit-tests the pointers for hover events when there is no render loop to step the simulation,
+   * e.g. while paused or with the "static" reduced motion mode.
+   */
+  private updateHovered() {
+    if (!this.running && !this.destroyed) this.simulation.updateHovered();
+  }
+
   /**
    * The main render loop, called on each animation frame.
-   * @param timestamp The current time provided by requestAnimationFrame.
+   * @param timestamp The current time provided by the clock.
    */
-  public render = (timestamp: number = 0) => {
+  private render = (timestamp: number = this.clock.now()) => {
+    // A stale frame may still fire after the loop was stopped
+    if (!this.shouldRun()) {
+      this.running = false;
+      return;
+    }
+    this.running = true;
+
     // Handle the first frame initialization
     // This ensures consistent timing for the first update
     if (this.firstFrame) {
       this.lastTimestamp = timestamp;
       this.firstFrame = false;
-      this.animationId = requestAnimationFrame(this.render);
+      this.animationId = this.clock.requestFrame(this.render);
       return;
     }
 
     // Calculate elapsed time since last frame
-    let elapsed = timestamp - this.lastTimestamp;
+    const frameMs = timestamp - this.lastTimestamp;
+    let elapsed = frameMs;
     this.lastTimestamp = timestamp;
 
     // Cap elapsed time to avoid large jumps (e.g., when switching tabs)
@@ -197,53 +328,310 @@ export class Engine {
       elapsed = 16.67;
     }
 
-    // Normalize delta to a 60fps baseline (This is for smoother animations across varying frame rates)
-    const delta = elapsed / (1000 / 60);
+    // Slow everything down if the user prefers reduced motion
+    if (this.getMotionMode() === "slow") {
+      elapsed *= this.config.reducedMotion.factor;
+    }
 
-    const { width, height } = this.canvas;
-    this.ctx.clearRect(0, 0, width, height);
+    this.drawFrame(elapsed, frameMs);
+
+    // Request the next frame
+    this.animationId = this.clock.requestFrame(this.render);
+  };
+
+  /**
+   * Steps the simulation and draws the result.
+   * @param elapsed The time to advance in milliseconds.
+   * @param frameMs (Optional) The real time since the last frame in milliseconds, for the frame stats.
+   */
+  private drawFrame(elapsed: number, frameMs: number = elapsed) {
+    // Hover interactions are motion too, so they're disabled when motion is reduced.
+    // The tracked pointers are still hit-tested for hover events.
+    const pointers =
+      this.getMotionMode() === "ignore"
+        ? Array.from(this.simulation.pointers.values())
+        : [];
+
+    this.simulation.step(elapsed, pointers, frameMs);
+    this.renderer.draw(this.simulation);
+  }
+
+  /**
+   * Pauses the render loop. Particles keep their state until play() is called.
+   */
+  public pause() {
+    this.paused = true;
+    this.syncLoop();
+  }
 
-    // Build the QuadTree for spatial partitioning
-    // This optimizes interaction calculations from O(n^2) to O(n log n)
-    const qtree = new QuadTree(new Boundary(0, 0, width, height));
-    for (const p of this.particles) {
-      qtree.insert(p);
+  /**
+   * Resumes the render loop after pause().
+   * The loop stays suspended while the canvas is off-screen or the tab is hidden.
+   */
+  public play() {
+    this.paused = false;
+    this.syncLoop();
+  }
+
+  /**
+   * Whether the render loop should be running right now.
+   * @returns True if nothing pauses or suspends the loop, otherwise false.
+   */
+  private shouldRun(): boolean {
+    return (
+      !this.paused &&
+      !this.destroyed &&
+      !this.offscreen &&
+      !this.hidden &&
+      this.getMotionMode() !== "static"
+    );
+  }
+
+  /**
+   * Starts or stops the render loop to match shouldRun().
+   * The first frame after starting only resets the timer, so particles don't jump on resume.
+   */
+  private syncLoop() {
+    const shouldRun = this.shouldRun();
+    if (shouldRun && !this.running) {
+      this.running = true;
+      this.firstFrame = true;
+      this.animationId = this.clock.requestFrame(this.render);
+    } else if (!shouldRun && this.running) {
+      this.running = false;
+      this.clock.cancelFrame(this.animationId);
     }
+  }
+
+  /**
+   * Returns how motion should be handled right now.
+   * @returns The configured reduced motion mode if the user prefers reduced motion, otherwise "ignore".
+   */
+  private getMotionMode(): "static" | "slow" | "ignore" {
+    return this.prefersReducedMotion
+      ? this.config.reducedMotion.mode
+      : "ignore";
+  }
+
+  /**
+   * Watches the prefers-reduced-motion media query, reacting live when the OS setting changes.
+   */
+  private watchReducedMotion() {
+    if (typeof window.matchMedia !== "function") return;
+    this.reducedMotionQuery = window.matchMedia(
+      "(prefers-reduced-motion: reduce)",
+    );
+    this.reducedMotionQuery.addEventListener(
+      "change",
+      this.handleReducedMotionChange,
+    );
+    this.handleReducedMotionChange();
+  }
 
-    // Apply attraction and other interactions
-    applyAttraction(this.particles, this.config, qtree);
-    applyInteractions(qtree, this.mouse, this.config, this.ctx, this.particles);
+  /**
+   * Handles reduced motion preference changes to switch between animated and static rendering.
+   */
+  private handleReducedMotionChange = () => {
+    this.prefersReducedMotion = !!this.reducedMotionQuery?.matches;
+    this.syncLoop();
+    this.drawStillFrame();
+  };
 
-    // Update and draw each particle
-    for (let i = 0, len = this.particles.length; i < len; i++) {
-      const p = this.particles[i];
-      p.update(delta);
-      p.draw(this.ctx);
+  /**
+   * Draws a single still frame when the render loop isn't running, e.g. while paused
+   * or with the "static" reduced motion mode, since nothing else would show the changes.
+   */
+  private drawStillFrame() {
+    if (this.destroyed || this.running) return;
+    this.drawFrame(0);
+  }
+
+  /**
+   * Suspends the render loop while the canvas is off-screen or the tab is hidden,
+   * based on the autoPause configuration.
+   */
+  private watchVisibility() {
+    const { offscreen, hidden } = this.config.autoPause;
+
+    if (offscreen && typeof IntersectionObserver !== "undefined") {
+      this.intersectionObserver = new IntersectionObserver((entries) => {
+        this.offscreen = !entries[entries.length - 1].isIntersecting;
+        this.syncLoop();
+      });
+      this.intersectionObserver.observe(this.canvas);
     }
 
-    // Request the next frame
-    this.animationId = requestAnimationFrame(this.render);
+    if (hidden) {
+      document.addEventListener(
+        "visibilitychange",
+        this.handleVisibilityChange,
+      );
+      this.handleVisibilityChange();
+    }
+  }
+
+  /**
+   * Stops watching visibility and resumes the loop if it was suspended.
+   */
+  private unwatchVisibility() {
+    this.intersectionObserver?.disconnect();
+    this.intersectionObserver = undefined;
+    document.removeEventListener(
+      "visibilitychange",
+      this.handleVisibilityChange,
+    );
+    this.offscreen = false;
+    this.hidden = false;
+    this.syncLoop();
+  }
+
+  /**
+   * Handles tab visibility changes to suspend or resume the render loop.
+   */
+  private handleVisibilityChange = () => {
+    this.hidden = document.visibilityState === "hidden";
+    this.syncLoop();
   };
 
   /**
-   * Cleans up resources and stops the engine.
+   * Returns whether the render loop is currently paused.
+   * @returns True if paused, otherwise false.
    */
-  destroy() {
-    // Stop the animation loop
-    cancelAnimationFrame(this.animationId);
+  public isPaused(): boolean {
+    return this.paused;
+  }
+
+  /**
+   * Adds particles to the engine.
+   * @param count The number of particles to add.
+   * @param position (Optional) Where to spawn the particles. If not provided, random positions are used.
+   * @param data (Optional) User payload for the particles, instead of the one from the config.
+   */
+  public addParticles(
+    count: number,
+    position?: { x: number; y: number },
+    data?: unknown,
+  ) {
+    this.simulation.addParticles(count, position, data);
+    this.drawStillFrame();
+  }
+
+  /**
+   * Removes the most recently added particles from the engine.
+   * @param count The number of particles to remove.
+   */
+  public removeParticles(count: number) {
+    this.simulation.removeParticles(count);
+    this.drawStillFrame();
+  }
 
-    // Remove event listeners
-    const target =
-      this.config.interactivity.detect_on === "window" ? window : this.canvas;
-    target.removeEventListener("mousemove", (e) =>
-      this.handleMouseMove(e as any),
+  /**
+   * Returns the number of particles currently in the engine.
+   * @returns The particle count.
+   */
+  public getParticleCount(): number {
+    return this.simulation.particles.length;
+  }
+
+  /**
+   * Replaces the callbacks for particle and frame events.
+   * @param events The callbacks to call from now on.
+   */
+  public setEvents(events: IParticleEvents) {
+    this.simulation.events = events;
+  }
+
+  /**
+   * Merges new parameters into the current configuration and applies them in place.
+   * @param params The parameters to merge into the current configuration.
+   */
+  public setParams(params: IParticleParams) {
+    this.applyConfig(deepMerge(this.config, params));
+  }
+
+  /**
+   * Replaces the configuration with the given parameters on top of a preset and applies it in place.
+   * This is what the Particles component calls when its props change.
+   * @param params Configuration parameters for particles.
+   * @param preset Preset configuration to use as a base.
+   */
+  public updateConfig(params: IParticleParams, preset: TPresets) {
+    this.applyConfig(deepMerge(DEFAULTS[preset], params));
+  }
+
+  /**
+   * Applies a new configuration to the running engine without recreating it.
+   * Existing particles keep their positions, only the particle count change adds or removes particles.
+   * @param next The new, fully populated configuration.
+   */
+  private applyConfig(next: Required<IParticleParams>) {
+    const changed = this.simulation.applyConfig(next);
+    if (changed.size === 0) return; // Nothing to do
+    this.config = next;
+
+    // Event targets can change with detect_on, so listeners are rebound
+    if (changed.has("interactivity")) {
+      this.unbindEvents();
+      this.bindEvents();
+    }
+
+    if (changed.has("pixelRatio")) {
+      this.resizeCanvas();
+      this.simulation.invalidateSprites();
+    }
+    if (changed.has("autoPause")) {
+      this.unwatchVisibility();
+      this.watchVisibility();
+    }
+    if (changed.has("reducedMotion")) this.syncLoop();
+    this.drawStillFrame();
+  }
+
+  /**
+   * Removes all event listeners bound in bindEvents().
+   */
+  private unbindEvents() {
+    const target = this.eventTarget;
+    if (!target) return; // Nothing bound
+    this.eventTarget = undefined;
+    target.removeEventListener(
+      "pointermove",
+      this.handlePointerMove as EventListener,
     );
-    target.removeEventListener("mouseleave", this.handleMouseLeave);
+    target.removeEventListener(
+      "pointerleave",
+      this.handlePointerEnd as EventListener,
+    );
+    this.canvas.removeEventListener("pointerdown", this.handlePointerDown);
+    this.canvas.removeEventListener("pointerup", this.handlePointerUp);
+    this.canvas.removeEventListener("pointercancel", this.handlePointerEnd);
     window.removeEventListener("resize", this.handleResize);
-    this.canvas.removeEventListener("click", this.handleClick);
+    this.pixelRatioQuery?.removeEventListener(
+      "change",
+      this.handlePixelRatioChange,
+    );
+    this.pixelRatioQuery = undefined;
+    this.simulation.pointers.clear();
+    this.taps.clear();
+  }
+
+  /**
+   * Cleans up resources and stops the engine.
+   */
+  public destroy() {
+    // Stop the animation loop
+    this.destroyed = true;
+    this.syncLoop();
+
+    // Remove event listeners and observers
+    this.unbindEvents();
+    this.unwatchVisibility();
+    this.reducedMotionQuery?.removeEventListener(
+      "change",
+      this.handleReducedMotionChange,
+    );
 
     // Destroy all particles
-    this.particles.forEach((p) => p.destroy());
-    this.particles.length = 0; // clear the array
+    this.simulation.destroy();
   }
 }
@@ -1,6 +1,9 @@
-import { IParticleParams } from "../types";
-import { DIRECTION_MAP, handleOutMode } from "../utils/physics";
-import { ShapeDrawers } from "../utils/shapeDrawers";
+import { IImageParams, IParticleParams, TViewport } from "../types";
+import { applyForces, DIRECTION_MAP, handleOutMode } from "../utils/physics";
+import { getShapeDrawer, TShapeState } from "../utils/shapeDrawers";
+import { THsl, hslToString, parseColor, pickColor } from "../utils/color";
+import { TRandom } from "../utils/random";
+import { loadImage, pickImage } from "../utils/images";
 
 /**
  * Particle class representing individual particles.
@@ -17,26 +20,55 @@ export class Particle {
   rotation: number = 0;
   rotationRadians: number = 0;
 
+  // Interaction state, on top of the base size, opacity and velocity
+  growthRadius: number = 0; // Size gained by absorbing other particles, kept through size animation
+  bubbleRadius: number = 0; // Current bubble size offset, eased towards its target
+  bubbleOpacity: number = 0; // Current bubble opacity offset, eased towards its target
+  impulseX: number = 0; // Velocity from impulses (e.g. repulse), decays over time
+  impulseY: number = 0;
+  private impulseDuration: number = 0; // Seconds for the impulse to decay
+  speedFactor: number = 1; // Speed multiplier for the next update (e.g. slow), reset after every update
+
+  // Lifecycle, particles without a lifetime live forever
+  age: number = 0; // Milliseconds since spawn
+  life: number = Infinity; // Total lifetime in milliseconds
+  dead: boolean = false;
+  history: { x: number; y: number }[] = []; // Recent positions, oldest first, for trails
+  data?: unknown; // User payload, from the config's `data` or the push API
+  counted: boolean = false; // Part of the configured particle count, unlike emitted, pushed or exploded particles
+  private lifeFade: boolean = false;
+  private lifeShrink: boolean = false;
+
   imgObj?: HTMLImageElement;
   parameters: Required<IParticleParams>;
   private colorCache: string;
+  private hsl: THsl | null = null;
+  private spriteHue: number = 0;
 
   private opacityDirection: number = 1;
   private sizeDirection: number = 1;
   private swayPhase: number = 0;
   private sprites: HTMLCanvasElement[] = [];
-  private imageLoaded: Promise<void>;
+  private spriteRatio: number = 1; // Pixel ratio the sprites were rendered at
+  private image?: IImageParams; // Picked on creation, loaded lazily by the renderer
+  private imageLoaded?: Promise<void>;
+  private spritesDirty: boolean = true; // Depth blur sprites need to be (re-)rendered
+  private shapeState: TShapeState; // Passed to the shape drawer on every draw
 
   /**
    * Initializes a new Particle instance.
-   * @param canvas The canvas where the particle will be rendered.
+   * @param viewport The logical size of the canvas where the particle will be rendered.
    * @param p The particle parameters/configuration. Required to define behavior and appearance.
    * @param position (Optional) Initial position of the particle. If not provided, a random position is assigned.
+   * @param index (Optional) Index of the particle, used for sequential color ordering.
+   * @param random (Optional) Random number generator for all variation. Pass a seeded one for reproducible scenes.
    */
   constructor(
-    private canvas: HTMLCanvasElement,
+    private viewport: TViewport,
     private p: Required<IParticleParams>,
     position?: { x: number; y: number },
+    index: number = 0,
+    private random: TRandom = Math.random,
   ) {
     this.parameters = p;
 
@@ -46,19 +78,23 @@ export class Particle {
     // Set initial position, if not provided, randomize within canvas + buffer
     this.x =
       position?.x ??
-      Math.random() * (canvas.width + spawnBuffer * 2) - spawnBuffer;
+      this.random() * (viewport.width + spawnBuffer * 2) - spawnBuffer;
     this.y =
       position?.y ??
-      Math.random() * (canvas.height + spawnBuffer * 2) - spawnBuffer;
+      this.random() * (viewport.height + spawnBuffer * 2) - spawnBuffer;
 
     // Initial velocity
     this.vx = 0;
     this.vy = 0;
 
-    // Cache color once, as it doesn't change per particle
-    this.colorCache = Array.isArray(this.p.color.value)
-      ? this.p.color.value[0]
-      : this.p.color.value;
+    this.data = p.data[index];
+
+    // Pick this particle's color once, it only changes if hue animation is enabled
+    this.colorCache = pickColor(this.p.color, index, this.random);
+    if (this.p.color.anim?.enable) {
+      this.hsl = parseColor(this.colorCache);
+      this.spriteHue = this.hsl?.h ?? 0;
+    }
 
     // Initialize opacity with potential randomness and animation settings
     const opacityCfg = p.opacity;
@@ -67,12 +103,12 @@ export class Particle {
     // Set initial opacity, if animation is enabled and not synced, randomize within range
     if (oAnim.enable && !oAnim.sync) {
       this.opacity =
-        Math.random() * (opacityCfg.value - oAnim.opacity_min) +
+        this.random() * (opacityCfg.value - oAnim.opacity_min) +
         oAnim.opacity_min;
-      this.opacityDirection = Math.random() > 0.5 ? 1 : -1;
+      this.opacityDirection = this.random() > 0.5 ? 1 : -1;
     } else {
       // If no animation or synced, set to base value with optional randomness
-      this.opacity = (opacityCfg.random ? Math.random() : 1) * opacityCfg.value;
+      this.opacity = (opacityCfg.random ? this.random() : 1) * opacityCfg.value;
       this.opacityDirection = 1;
     }
 
@@ -86,11 +122,11 @@ export class Particle {
     if (sAnim.enable && !sAnim.sync) {
       // If animation enabled and sync disabled randomize initial size within animation range
       this.radius =
-        Math.random() * (sizeCfg.value - sAnim.size_min) + sAnim.size_min;
-      this.sizeDirection = Math.random() > 0.5 ? 1 : -1;
+        this.random() * (sizeCfg.value - sAnim.size_min) + sAnim.size_min;
+      this.sizeDirection = this.random() > 0.5 ? 1 : -1;
     } else {
       // If no animation or synced, set to base value with optional randomness
-      this.radius = (sizeCfg.random ? Math.random() : 1) * sizeCfg.value;
+      this.radius = (sizeCfg.random ? this.random() : 1) * sizeCfg.value;
       this.sizeDirection = 1;
     }
 
@@ -98,38 +134,147 @@ export class Particle {
     this.initialRadius = this.radius;
 
     // Initialize rotation if enabled
-    const rotateCfg = p.rotate;
-
-    if (rotateCfg.enable) {
-      this.rotation =
-        (rotateCfg.anim.enable && !rotateCfg.anim.sync) || rotateCfg.random
-          ? Math.random() * 360
-          : rotateCfg.value;
-      this.rotationRadians = (this.rotation * Math.PI) / 180;
-    }
+    this.initRotation();
 
     // Initialize sway if enabled
     if (this.p.sway.enable) {
-      this.swayPhase = this.p.sway.random ? Math.random() * Math.PI * 2 : 0;
+      this.swayPhase = this.p.sway.random ? this.random() * Math.PI * 2 : 0;
     }
 
-    // Initialize velocity and image
+    // Initialize velocity and pick the image
+    // Images and depth blur sprites are only created once the particle is drawn,
+    // so particles can be simulated without a DOM
     this.initVelocity();
-    this.imageLoaded = this.initImage();
+    this.shapeState = { seed: this.random(), time: 0, custom: {} };
+    this.initImage(index);
+  }
+
+  /**
+   * Applies an updated configuration to this particle in place.
+   * Position and animation progress are kept, only the changed sections are re-derived.
+   * @param next The new particle parameters/configuration.
+   * @param changed The configuration sections that differ from the current ones.
+   * @param index Index of the particle, used for sequential color ordering.
+   */
+  applyConfig(
+    next: Required<IParticleParams>,
+    changed: Set<keyof IParticleParams>,
+    index: number,
+  ) {
+    const prev = this.p;
+    this.p = next;
+    this.parameters = next;
+
+    // Pick a new color, keeping hue animation in sync with it
+    if (changed.has("color")) {
+      this.colorCache = pickColor(next.color, index, this.random);
+      this.hsl = next.color.anim?.enable ? parseColor(this.colorCache) : null;
+      this.spriteHue = this.hsl?.h ?? 0;
+    }
+
+    // Scale size and opacity relative to the old base values to keep per-particle variation
+    if (changed.has("size")) {
+      const ratio = next.size.value / (prev.size.value || 1);
+      this.radius *= ratio;
+      this.initialRadius *= ratio;
+      this.growthRadius *= ratio;
+    }
+    if (changed.has("opacity")) {
+      const ratio = next.opacity.value / (prev.opacity.value || 1);
+      this.opacity = Math.min(this.opacity * ratio, 1);
+      this.initialOpacity = Math.min(this.initialOpacity * ratio, 1);
+    }
+
+    if (changed.has("move")) {
+      const sameDirection =
+        prev.move.enable === next.move.enable &&
+        JSON.stringify(prev.move.direction) ===
+          JSON.stringify(next.move.direction) &&
+        JSON.stringify(prev.move.randomized) ===
+          JSON.stringify(next.move.randomized);
+
+      if (sameDirection && prev.move.speed > 0) {
+        // Only the speed changed, so scale the current velocity
+        const ratio = next.move.speed / prev.move.speed;
+        this.vx *= ratio;
+        this.vy *= ratio;
+      } else {
+        // Direction or movement type changed, so start with a fresh velocity
+        this.vx = 0;
+        this.vy = 0;
+        this.initVelocity();
+      }
+    }
+
+    // Drop the bubble offsets when the hover mode changes, no transition would reset them
+    if (changed.has("interactivity")) {
+      this.radius -= this.bubbleRadius;
+      this.opacity -= this.bubbleOpacity;
+      this.bubbleRadius = 0;
+      this.bubbleOpacity = 0;
+    }
+
+    if (changed.has("rotate")) this.initRotation();
+    if (changed.has("data")) this.data = next.data[index];
+    if (changed.has("sway") && next.sway.enable && !prev.sway.enable) {
+      this.swayPhase = next.sway.random ? this.random() * Math.PI * 2 : 0;
+    }
+
+    // Reload the image if the shape changed
+    if (changed.has("shape")) {
+      this.imgObj = undefined;
+      this.imageLoaded = undefined;
+      this.shapeState = { seed: this.shapeState.seed, time: 0, custom: {} };
+      this.initImage(index);
+    }
+
+    // Re-render the blur sprites if anything they depend on changed
+    if (
+      changed.has("depthBlur") ||
+      changed.has("shape") ||
+      changed.has("color") ||
+      changed.has("size")
+    ) {
+      this.sprites = [];
+      this.spritesDirty = true;
+    }
+  }
+
+  /**
+   * Initializes the rotation of the particle based on configuration.
+   * @returns void
+   */
+  private initRotation() {
+    const rotateCfg = this.p.rotate;
+    if (!rotateCfg.enable) return; // If rotation is disabled, do nothing
 
-    // Pre-cache depth blur sprites if enabled
-    if (this.p.depthBlur.enable) this.cacheSprites();
+    this.rotation =
+      (rotateCfg.anim.enable && !rotateCfg.anim.sync) || rotateCfg.random
+        ? this.random() * 360
+        : rotateCfg.value;
+    this.rotationRadians = (this.rotation * Math.PI) / 180;
+  }
+
+  /**
+   * Marks the depth blur sprites for re-rendering on the next draw, e.g. after a pixel ratio change.
+   */
+  invalidateSprites() {
+    this.spritesDirty = true;
   }
 
   /**
    * Pre-renders sprites for depth blur effect.
    * This optimizes rendering by avoiding real-time blur calculations.
    * We sacrifice some memory to gain performance.
+   * Sprites are rendered at the viewport's pixel ratio so they stay sharp on high-DPI screens.
    */
   private cacheSprites() {
     const { maxBlur, focus } = this.p.depthBlur;
     const maxSize = this.p.size.value;
     const depthLevels = [0.15, 0.5, 0.85]; // Near, mid, far depths
+    const ratio = this.viewport.pixelRatio;
+    this.spriteRatio = ratio;
+    this.spritesDirty = false;
 
     // Pre-render sprites for each depth level
     this.sprites = depthLevels.map((d) => {
@@ -138,28 +283,51 @@ export class Particle {
       // Calculate blur based on distance from focus
       const dist = Math.abs(d - focus);
       const blur = dist * maxBlur;
-      const padding = blur * 2;
-      const canvasSize = Math.ceil((maxSize + padding) * 2);
+      const padding = blur * 2 + (this.p.shape.stroke?.width ?? 0);
+      const canvasSize = Math.ceil((maxSize + padding) * 2 * ratio);
 
       offscreen.width = canvasSize;
       offscreen.height = canvasSize;
 
       // Get 2D rendering context for offscreen canvas
       const octx = offscreen.getContext("2d")!;
-      if (blur > 0.5) octx.filter = `blur(${blur.toFixed(1)}px)`;
+      if (blur > 0.5) octx.filter = `blur(${(blur * ratio).toFixed(1)}px)`;
 
-      // Center the drawing
+      // Center the drawing and scale it to the pixel ratio
       octx.translate(canvasSize / 2, canvasSize / 2);
+      octx.scale(ratio, ratio);
       octx.fillStyle = this.colorCache;
 
-      // Use a drawer strategy to draw the shape
-      // This allows for easy extension of shapes in the future
-      const drawer = ShapeDrawers[this.p.shape.type] || ShapeDrawers.circle;
-      drawer(octx, maxSize, this.p, this.imgObj);
+      // Use a drawer strategy to draw the shape, built-in or registered
+      const drawer = getShapeDrawer(this.p.shape);
+      drawer(octx, maxSize, this.p, this.shapeState);
       return offscreen;
     });
   }
 
+  /**
+   * Handles hue cycling based on configuration.
+   * Depth blur sprites are only re-rendered every few degrees to keep it cheap.
+   * @param delta Time elapsed since last frame
+   * @returns void
+   */
+  private handleColorAnimation(delta: number) {
+    const anim = this.p.color.anim;
+    if (!anim?.enable || !this.hsl) return; // If animation is disabled or the color can't be parsed, do nothing
+
+    // Shift the hue and keep it within 0-360 degrees
+    this.hsl.h = (this.hsl.h + anim.speed * delta) % 360;
+    if (this.hsl.h < 0) this.hsl.h += 360;
+    this.colorCache = hslToString(this.hsl);
+
+    // Re-render the blur sprites once the hue drifted far enough from the cached one
+    const drift = Math.abs(this.hsl.h - this.spriteHue);
+    if (this.sprites.length > 0 && Math.min(drift, 360 - drift) >= 10) {
+      this.spriteHue = this.hsl.h;
+      this.spritesDirty = true;
+    }
+  }
+
   /**
    * Gets the depth of the particle relative to its size.
    * This is used for depth-based effects like depth blur.
@@ -196,18 +364,21 @@ export class Particle {
 
     // This will increase or decrease opacity based on direction
     // It will create an effect of fading in and out
-    this.opacity += (anim.speed / 1000) * this.opacityDirection * delta;
-    if (this.opacity >= this.p.opacity.value) {
+    // The base opacity is animated, so interactions like bubble stay on top of it
+    let opacity = this.initialOpacity;
+    opacity += (anim.speed / 1000) * this.opacityDirection * delta;
+    if (opacity >= this.p.opacity.value) {
       this.opacityDirection = -1;
-      this.opacity = this.p.opacity.value;
-    } else if (this.opacity <= anim.opacity_min) {
+      opacity = this.p.opacity.value;
+    } else if (opacity <= anim.opacity_min) {
       this.opacityDirection = 1;
-      this.opacity = anim.opacity_min;
+      opacity = anim.opacity_min;
     }
 
-    if (this.opacity < 0) this.opacity = 0; // Prevent negative opacity
-    if (this.opacity > 1) this.opacity = 1; // Cap opacity at 1
-    this.initialOpacity = this.opacity;
+    if (opacity < 0) opacity = 0; // Prevent negative opacity
+    if (opacity > 1) opacity = 1; // Cap opacity at 1
+    this.initialOpacity = opacity;
+    this.opacity = opacity + this.bubbleOpacity;
   }
 
   /**
@@ -221,18 +392,21 @@ export class Particle {
 
     // This will increase or decrease size based on direction
     // It will create a pulsating effect
-    this.radius += (anim.speed / 100) * this.sizeDirection * delta;
-    if (this.radius >= this.p.size.value) {
+    // The base size is animated, so absorbed growth and interactions like bubble stay on top of it
+    let radius = this.initialRadius;
+    radius += (anim.speed / 100) * this.sizeDirection * delta;
+    if (radius >= this.p.size.value) {
       this.sizeDirection = -1;
-      this.radius = this.p.size.value;
-    } else if (this.radius <= anim.size_min) {
+      radius = this.p.size.value;
+    } else if (radius <= anim.size_min) {
       this.sizeDirection = 1;
-      this.radius = anim.size_min;
+      radius = anim.size_min;
     }
 
-    if (this.radius < 0) this.radius = 0; // Prevent negative size
-    if (this.radius > this.p.size.value) this.radius = this.p.size.value; // Cap size at max
-    this.initialRadius = this.radius;
+    if (radius < 0) radius = 0; // Prevent negative size
+    if (radius > this.p.size.value) radius = this.p.size.value; // Cap size at max
+    this.initialRadius = radius;
+    this.radius = radius + this.growthRadius + this.bubbleRadius;
   }
 
   /**
@@ -266,12 +440,12 @@ export class Particle {
     const multiplier = DIRECTION_MAP[direction.to] || { x: 1, y: 1 }; // Default to "none" direction
 
     // Determine direction components, if random is true, use random values
-    const dirX = direction.random ? Math.random() - 0.5 : multiplier.x;
-    const dirY = direction.random ? Math.random() - 0.5 : multiplier.y;
+    const dirX = direction.random ? this.random() - 0.5 : multiplier.x;
+    const dirY = direction.random ? this.random() - 0.5 : multiplier.y;
 
     // Calculate randomized speed within specified range, use 1 and 5 as defaults
     const randomizedSpeed = Math.max(
-      Math.min(Math.random() * speed, randomized.max ?? 5),
+      Math.min(this.random() * speed, randomized.max ?? 5),
       randomized.min ?? 1,
     );
     const varSpeed = randomized.enable ? randomizedSpeed : speed;
@@ -282,28 +456,21 @@ export class Particle {
   }
 
   /**
-   * Initializes the image object if the particle shape is an image.
-   * This preloads the image for rendering.
-   * @returns A promise that resolves when the image is loaded.
+   * Picks the image if the particle shape is an image.
+   * The image itself is loaded lazily through whenLoaded().
+   * @param index Index of the particle, used for sequential image ordering.
+   * @returns void
    */
-  private initImage(): Promise<void> {
+  private initImage(index: number) {
     const { shape } = this.p;
+    this.image = undefined;
     if (shape.type === "image" && shape.images?.length) {
-      // If shape is image and images are provided, load a random image from the array
-      // For now, we have no ordering, but that would be easy to add later as an additional config
-      this.imgObj = new Image();
-      this.imgObj.src =
-        shape.images[Math.floor(Math.random() * shape.images.length)];
-
-      // Return a promise that resolves when the image is loaded
-      return new Promise((resolve) => {
-        this.imgObj!.onload = () => resolve();
-        this.imgObj!.onerror = () => resolve(); // fail-safe
-      });
+      const order = shape.image?.order ?? "random";
+      this.image = pickImage(shape.images, order, index, this.random);
+    } else if (shape.type === "sprite" && shape.sprite?.src) {
+      this.image = { src: shape.sprite.src };
     }
-
-    // If it is not an image, instantly resolve
-    return Promise.resolve();
+    this.shapeState.image = this.image;
   }
 
   /**
@@ -311,6 +478,13 @@ export class Particle {
    * @param ctx The 2D rendering context of the canvas.
    */
   draw(ctx: CanvasRenderingContext2D) {
+    // Start loading the image and render the blur sprites on the first draw
+    if (this.image && !this.imageLoaded) this.whenLoaded();
+    // Animated sprite sheets change every frame, so they can't use the cached blur sprites
+    const useSprites =
+      this.p.depthBlur.enable && this.p.shape.type !== "sprite";
+    if (useSprites && this.spritesDirty) this.cacheSprites();
+
     const useRotate = this.p.rotate.enable; // Are we using rotation for this particle?
 
     // Save the context state before applying transformations
@@ -319,31 +493,34 @@ export class Particle {
 
     if (useRotate) ctx.rotate(this.rotationRadians); // Apply rotation if enabled
 
+    // Fade and shrink out over the lifetime, if configured
+    const lifeLeft = this.getLifeLeft();
+    const alpha = this.lifeFade ? this.opacity * lifeLeft : this.opacity;
+    const radius = this.lifeShrink ? this.radius * lifeLeft : this.radius;
+
     // Set global alpha for opacity
-    ctx.globalAlpha =
-      this.opacity < 0 ? 0 : this.opacity > 1 ? 1 : this.opacity;
+    ctx.globalAlpha = alpha < 0 ? 0 : alpha > 1 ? 1 : alpha;
 
     // If we are using depth blur and have sprites cached, draw the appropriate sprite
-    if (this.p.depthBlur.enable && this.sprites.length > 0) {
+    if (useSprites && this.sprites.length > 0) {
       // Determine which sprite to use based on depth
       const depth = this.getDepth();
       // Get sprite index: 0 (near), 1 (mid), 2 (far)
       const spriteIdx = depth > 0.66 ? 2 : depth > 0.33 ? 1 : 0;
       // Draw the sprite centered at (0,0)
       const sprite = this.sprites[spriteIdx];
-      // Scale sprite to current particle size
-      const scale = this.radius / this.p.size.value;
-      const drawSize = sprite.width * scale;
+      // Scale sprite to current particle size, in logical pixels
+      const scale = radius / this.p.size.value;
+      const drawSize = (sprite.width / this.spriteRatio) * scale;
       // Draw the sprite centered
       ctx.drawImage(sprite, -drawSize / 2, -drawSize / 2, drawSize, drawSize);
     } else {
       // If no depth blur, draw normally
       ctx.fillStyle = this.colorCache; // Use cached color
 
-      // Use a drawer strategy to draw the shape
-      // This allows for easy extension of shapes in the future
-      const drawer = ShapeDrawers[this.p.shape.type] || ShapeDrawers.circle;
-      drawer(ctx, this.radius, this.p, this.imgObj);
+      // Use a drawer strategy to draw the shape, built-in or registered
+      const drawer = getShapeDrawer(this.p.shape);
+      drawer(ctx, radius, this.p, this.shapeState);
     }
     ctx.restore();
   }
@@ -351,19 +528,218 @@ export class Particle {
   /**
    * Updates particle state.
    * @param delta Factor to normalize speed across different frame rates (1.0 at 60fps).
+   * @param time (Optional) Total simulated time in milliseconds, drives time-varying forces like wind gusts.
    */
-  update(delta: number) {
-    // Update position based on velocity and delta
-    this.x += this.vx * delta;
-    this.y += this.vy * delta;
+  update(delta: number, time: number = 0) {
+    if (this.dead) return; // Dead particles are culled by the engine
+
+    // Age the particle and mark it dead once its lifetime is over
+    this.age += delta * (1000 / 60);
+    if (this.age >= this.life) {
+      this.dead = true;
+      return;
+    }
+
+    // Advance the animation clock of the shape, e.g. for sprite sheet frames
+    this.shapeState.time += delta * (1000 / 60);
+
+    // Accelerate by gravity and wind, and slow down by drag
+    if (this.p.move.enable) applyForces(this, delta, time);
+
+    // Update position based on velocity, the decaying impulse and delta
+    const speed = this.speedFactor;
+    this.speedFactor = 1; // Interactions set it again every frame
+    this.x += (this.vx * speed + this.impulseX) * delta;
+    this.y += (this.vy * speed + this.impulseY) * delta;
+    if (this.impulseX || this.impulseY) this.decayImpulse(delta);
 
     // Handle various animations and effects
-    handleOutMode(this, this.canvas);
+    handleOutMode(this, this.viewport);
     if (this.p.sway.enable) this.handleSway(delta); // Sway effect
     if (this.p.opacity.anim.enable) this.handleOpacityAnimation(delta); // Opacity animation
     if (this.p.size.anim.enable) this.handleSizeAnimation(delta); // Size animation
     if (this.p.rotate.enable && this.p.rotate.anim.enable)
       this.handleRotationAnimation(delta); // Rotation animation
+    if (this.p.color.anim?.enable) this.handleColorAnimation(delta); // Hue animation
+    this.recordHistory(); // Trail, once the position is final
+  }
+
+  /**
+   * Records the current position for the trail, keeping only the configured number of positions.
+   * @returns void
+   */
+  private recordHistory() {
+    const { enable, mode, length } = this.p.trail;
+    if (!enable || mode !== "history") {
+      if (this.history.length) this.history = [];
+      return;
+    }
+
+    // Start a new trail when wrapping around the edges, instead of drawing a line across the canvas
+    const last = this.history[this.history.length - 1];
+    if (last) {
+      const limit = Math.max(this.viewport.width, this.viewport.height) / 2;
+      if (
+        Math.abs(this.x - last.x) > limit ||
+        Math.abs(this.y - last.y) > limit
+      )
+        this.history = [];
+    }
+
+    this.history.push({ x: this.x, y: this.y });
+    if (this.history.length > length) this.history.shift();
+  }
+
+  /**
+   * Splits the particle into smaller fragments flying apart in evenly spread directions.
+   * Fragments keep the particle's color and opacity, and together they have the same area.
+   * The particle itself is left untouched, the caller removes it.
+   * @param count The number of fragments.
+   * @param speed The speed of the fragments in pixels per 60fps frame.
+   * @returns The fragments.
+   */
+  split(count: number, speed: number): Particle[] {
+    const fragments: Particle[] = [];
+    const radius = this.radius / Math.sqrt(Math.max(count, 1));
+    const offset = this.random() * Math.PI * 2;
+
+    for (let i = 0; i < count; i++) {
+      const f = new Particle(
+        this.viewport,
+        this.p,
+        { x: this.x, y: this.y },
+        0,
+        this.random,
+      );
+      const angle = offset + (i / count) * Math.PI * 2;
+      f.vx = this.vx + Math.cos(angle) * speed;
+      f.vy = this.vy + Math.sin(angle) * speed;
+      f.radius = f.initialRadius = radius;
+      f.opacity = f.initialOpacity = this.initialOpacity;
+      f.colorCache = this.colorCache;
+      f.hsl = this.hsl && { ...this.hsl };
+      f.spriteHue = this.spriteHue;
+      f.data = this.data;
+      fragments.push(f);
+    }
+    return fragments;
+  }
+
+  /**
+   * Pushes the particle with a velocity impulse that decays over the given duration.
+   * With several impulses at once (e.g. from several pointers), the strongest one wins.
+   * @param x The horizontal impulse in pixels per 60fps frame.
+   * @param y The vertical impulse in pixels per 60fps frame.
+   * @param duration The time in seconds until the impulse has faded out, 0 for a single frame.
+   */
+  applyImpulse(x: number, y: number, duration: number) {
+    if (x * x + y * y < this.impulseX ** 2 + this.impulseY ** 2) return;
+    this.impulseX = x;
+    this.impulseY = y;
+    this.impulseDuration = duration;
+  }
+
+  /**
+   * Decays the impulse, easing out so it has faded to 5% after its duration.
+   * @param delta Time elapsed since last frame
+   * @returns void
+   */
+  private decayImpulse(delta: number) {
+    const durationMs = this.impulseDuration * 1000;
+    const factor =
+      durationMs > 0 ? Math.pow(0.05, (delta * (1000 / 60)) / durationMs) : 0;
+    this.impulseX *= factor;
+    this.impulseY *= factor;
+
+    // Stop tracking impulses too small to notice
+    if (Math.abs(this.impulseX) + Math.abs(this.impulseY) < 0.01) {
+      this.impulseX = 0;
+      this.impulseY = 0;
+    }
+  }
+
+  /**
+   * Gives the particle a limited lifetime, after which the engine removes it.
+   * @param duration The lifetime in milliseconds.
+   * @param fadeOut Whether the particle fades out over its lifetime.
+   * @param shrinkOut Whether the particle shrinks out over its lifetime.
+   */
+  setLifetime(duration: number, fadeOut = false, shrinkOut = false) {
+    this.age = 0;
+    this.life = duration;
+    this.dead = false;
+    this.lifeFade = fadeOut;
+    this.lifeShrink = shrinkOut;
+  }
+
+  /**
+   * Returns the remaining fraction of the particle's lifetime.
+   * @returns A value between 1 (just spawned, or immortal) and 0 (end of life).
+   */
+  getLifeLeft(): number {
+    if (this.life === Infinity) return 1;
+    return Math.max(1 - this.age / this.life, 0);
+  }
+
+  /**
+   * Checks whether a point lies on the particle, following the outline of its shape.
+   * Edges, images and sprites are tested against their (rotated) box, all other shapes against their radius.
+   * @param x The x position of the point.
+   * @param y The y position of the point.
+   * @returns True if the point is on the particle, otherwise false.
+   */
+  containsPoint(x: number, y: number): boolean {
+    const radius = this.lifeShrink
+      ? this.radius * this.getLifeLeft()
+      : this.radius;
+    let dx = x - this.x;
+    let dy = y - this.y;
+
+    const box = this.getHitBox(radius);
+    if (!box) return dx * dx + dy * dy <= radius * radius;
+
+    // Rotate the point into the particle's frame, so the box is axis aligned
+    if (this.p.rotate.enable) {
+      const cos = Math.cos(this.rotationRadians);
+      const sin = Math.sin(this.rotationRadians);
+      [dx, dy] = [dx * cos + dy * sin, dy * cos - dx * sin];
+    }
+    return Math.abs(dx) <= box.width / 2 && Math.abs(dy) <= box.height / 2;
+  }
+
+  /**
+   * Returns the size of the box the particle's shape is drawn in, for shapes that fill a box.
+   * Images keep their aspect ratio, with the longer side spanning the diameter.
+   * @param radius The radius the particle is drawn with.
+   * @returns The width and height of the box, or null if the shape is tested as a circle.
+   */
+  private getHitBox(radius: number): { width: number; height: number } | null {
+    const { shape } = this.p;
+    const size = radius * 2;
+    let width = 0;
+    let height = 0;
+
+    if (shape.type === "edge") return { width: size, height: size };
+    if (shape.type === "sprite" && shape.sprite && !this.shapeState.imgFailed) {
+      width = shape.sprite.frameWidth;
+      height = shape.sprite.frameHeight;
+    } else if (shape.type === "image" && !this.shapeState.imgFailed) {
+      const img = this.shapeState.img;
+      width = this.image?.width ?? img?.naturalWidth ?? 0;
+      height = this.image?.height ?? img?.naturalHeight ?? 0;
+    }
+    if (!(width > 0 && height > 0)) return null; // Not a box, or its size isn't known yet
+
+    const scale = size / Math.max(width, height);
+    return { width: width * scale, height: height * scale };
+  }
+
+  /**
+   * Get the current color of the particle.
+   * @returns The CSS color string.
+   */
+  getColor() {
+    return this.colorCache;
   }
 
   /**
@@ -394,9 +770,23 @@ export class Particle {
 
   /**
    * Returns a promise that resolves when the particle's image is loaded.
-   * @returns A promise that resolves when the image is loaded.
+   * The first call starts loading the image, particles without an image resolve instantly.
+   * Images are shared between particles, so every URL is only loaded once.
+   * @returns A promise that resolves when the image is loaded, or failed to load.
    */
   public whenLoaded(): Promise<void> {
+    if (this.imageLoaded) return this.imageLoaded;
+    if (!this.image) return Promise.resolve(); // If it is not an image, instantly resolve
+
+    const { img, loaded } = loadImage(this.image.src);
+    const state = this.shapeState; // The shape may change while the image is loading
+    this.imgObj = img;
+    state.img = img;
+
+    this.imageLoaded = loaded.then((ok) => {
+      state.imgFailed = !ok; // The drawer falls back to another shape
+      this.spritesDirty = true; // Sprites drawn before the image loaded are empty
+    });
     return this.imageLoaded;
   }
 
@@ -406,8 +796,10 @@ export class Particle {
   public destroy() {
     // Clear the image reference
     this.imgObj = undefined;
+    this.shapeState.img = undefined;
 
-    // Clear sprites
+    // Clear sprites and the trail
     this.sprites = [];
+    this.history = [];
   }
 }
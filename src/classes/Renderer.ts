@@ -0,0 +1,53 @@
+import { Simulation } from "./Simulation";
+import { drawConnectLines, drawGrabLines, drawLinks } from "../utils/links";
+import { drawLights } from "../utils/lights";
+import { drawTrails, fadeFrame } from "../utils/trails";
+
+/**
+ * Renderer adapter that draws the state of a Simulation onto a 2D canvas context.
+ * Keeping drawing here lets the simulation itself stay DOM-free.
+ */
+export class CanvasRenderer {
+  private lightMask?: HTMLCanvasElement; // Created on the first spotlight
+  /**
+   * Creates an instance of the CanvasRenderer.
+   * @param ctx The 2D rendering context to draw on, already scaled to logical pixels.
+   */
+  constructor(private ctx: CanvasRenderingContext2D) {}
+
+  /**
+   * Draws a single frame of the simulation.
+   * @param simulation The simulation to draw.
+   */
+  draw(simulation: Simulation) {
+    const { ctx } = this;
+    const { width, height } = simulation.viewport;
+    const { trail } = simulation.config;
+
+    // The fade trail keeps a faded copy of the previous frames instead of clearing them
+    if (trail.enable && trail.mode === "fade") {
+      fadeFrame(simulation.config, width, height, ctx);
+    } else {
+      ctx.clearRect(0, 0, width, height);
+    }
+
+    // Draw grab lines and links between nearby particles underneath the particles themselves
+    drawGrabLines(simulation.grabLines, simulation.config, ctx);
+    drawConnectLines(simulation.connectLines, simulation.config, ctx);
+    drawLinks(simulation.qtree, simulation.particles, simulation.config, ctx);
+    if (trail.enable && trail.mode === "history") {
+      drawTrails(simulation.particles, simulation.config, ctx);
+    }
+
+    // Draw each particle
+    for (let i = 0, len = simulation.particles.length; i < len; i++) {
+      simulation.particles[i].draw(ctx);
+    }
+
+    // Reveal the particles only around the spotlights
+    if (simulation.lights.length) {
+      this.lightMask ??= document.createElement("canvas");
+      drawLights(simulation.lights, simulation.config, ctx, this.lightMask);
+    }
+  }
+}
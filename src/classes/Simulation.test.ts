@@ -0,0 +1,375 @@
+import { describe, expect, it } from "vitest";
+import { Simulation } from "./Simulation";
+import { Particle } from "./Particle";
+import {
+  IParticleEvents,
+  IParticleParams,
+  TClickMode,
+  TFrameStats,
+} from "../types";
+import { DEFAULTS } from "../lib/defaults";
+import { deepMerge } from "../utils/config";
+
+const makeSimulation = (params: IParticleParams, events?: IParticleEvents) =>
+  new Simulation(
+    deepMerge(DEFAULTS.default, params),
+    { width: 200, height: 200, pixelRatio: 1 },
+    events,
+  );
+const fixedCount = (value: number) => ({
+  number: { value, density: { enable: false, area: 800 } },
+});
+
+describe("Simulation", () => {
+  it("creates the configured number of particles without a DOM", () => {
+    const sim = makeSimulation(fixedCount(25));
+    expect(sim.particles).toHaveLength(25);
+  });
+
+  it("moves particles by their velocity, normalized to 60fps", () => {
+    const sim = makeSimulation({
+      ...fixedCount(1),
+      sway: { ...DEFAULTS.default.sway, enable: false },
+    });
+    const p = sim.particles[0];
+    p.x = 100;
+    p.y = 100;
+    p.vx = 1;
+    p.vy = -2;
+
+    sim.step(1000 / 30); // Two 60fps frames
+    expect(p.x).toBeCloseTo(102);
+    expect(p.y).toBeCloseTo(96);
+    expect(sim.time).toBeCloseTo(1000 / 30);
+  });
+
+  it("pushes particles at the click position", () => {
+    const sim = makeSimulation(fixedCount(10)); // The default preset pushes on click
+    sim.click(50, 50);
+
+    const { quantity } = DEFAULTS.default.interactivity.modes.push;
+    expect(sim.particles).toHaveLength(10 + quantity);
+    expect(sim.particles[10].x).toBe(50);
+    expect(sim.particles[10].y).toBe(50);
+  });
+
+  it("only adds or removes configured particles on a count change", () => {
+    const config = deepMerge(DEFAULTS.default, fixedCount(10));
+    const sim = makeSimulation(fixedCount(10));
+    sim.click(50, 50); // Pushed particles aren't part of the count
+    const pushed = sim.particles.slice(10);
+
+    sim.applyConfig(deepMerge(config, fixedCount(4)));
+    expect(sim.particles).toHaveLength(4 + pushed.length);
+    expect(sim.particles.slice(4)).toEqual(pushed);
+
+    sim.applyConfig(deepMerge(config, fixedCount(12)));
+    expect(sim.particles).toHaveLength(12 + pushed.length);
+    expect(sim.particles.filter((p) => p.counted)).toHaveLength(12);
+  });
+
+  it("culls particles at the end of their lifetime", () => {
+    const sim = makeSimulation(fixedCount(3));
+    sim.particles[0].setLifetime(50);
+    sim.step(16);
+    expect(sim.particles).toHaveLength(3);
+    sim.step(40);
+    expect(sim.particles).toHaveLength(2);
+  });
+
+  it("spawns particles from emitters", () => {
+    const sim = makeSimulation({
+      ...fixedCount(0),
+      emitters: [
+        {
+          position: { x: 50, y: 50 },
+          burst: 5,
+          rate: { quantity: 1, delay: 0.1 },
+        },
+      ],
+    });
+    sim.step(16);
+    expect(sim.particles).toHaveLength(5);
+    sim.step(100);
+    expect(sim.particles).toHaveLength(6);
+  });
+
+  it("stops emitting at the emitter's max until particles are gone", () => {
+    const sim = makeSimulation({
+      ...fixedCount(0),
+      emitters: [
+        {
+          position: { x: 50, y: 50 },
+          burst: 5,
+          rate: { quantity: 2, delay: 0.1 },
+          max: 3,
+        },
+      ],
+    });
+    sim.step(16);
+    expect(sim.particles).toHaveLength(3);
+    sim.step(500);
+    expect(sim.particles).toHaveLength(3);
+
+    sim.removeParticles(2);
+    sim.step(100);
+    expect(sim.particles).toHaveLength(3);
+  });
+
+  it("caps the particles emitters spawn in total", () => {
+    const sim = makeSimulation({
+      ...fixedCount(0),
+      emitters: [{ position: { x: 50, y: 50 }, burst: 2500 }],
+    });
+    sim.step(16);
+    expect(sim.particles).toHaveLength(2000);
+  });
+
+  it("produces the same scene for the same seed", () => {
+    const params: IParticleParams = {
+      ...fixedCount(20),
+      seed: 42,
+      emitters: [
+        {
+          position: { x: 50, y: 50 },
+          burst: 5,
+          spawn: { shape: "circle", width: 40, height: 40 },
+          direction: { angle: -90, spread: 60 },
+        },
+      ],
+    };
+    const snapshot = (sim: Simulation) =>
+      sim.particles.map((p) => [p.x, p.y, p.radius, p.opacity]);
+
+    const a = makeSimulation(params);
+    const b = makeSimulation(params);
+    for (const sim of [a, b]) {
+      sim.step(16);
+      sim.click(30, 40);
+      sim.step(16);
+    }
+    expect(snapshot(a)).toEqual(snapshot(b));
+
+    const c = makeSimulation({ ...params, seed: 7 });
+    expect(snapshot(c)).not.toEqual(snapshot(makeSimulation(params)));
+  });
+
+  it("keeps a capped position history for trails", () => {
+    const sim = makeSimulation({
+      ...fixedCount(1),
+      trail: {
+        enable: true,
+        mode: "history",
+        fade: 0.2,
+        length: 3,
+        opacity: 1,
+      },
+    });
+    const [p] = sim.particles;
+    p.x = p.y = 100; // Away from the edges, where wrapping starts a new trail
+    for (let i = 0; i < 5; i++) sim.step(16);
+    expect(p.history).toHaveLength(3);
+    expect(p.history[2]).toEqual({ x: p.x, y: p.y });
+  });
+
+  describe("click modes", () => {
+    const withClick = (
+      mode: TClickMode | TClickMode[],
+      params: IParticleParams = fixedCount(0),
+    ) =>
+      makeSimulation({
+        ...params,
+        interactivity: {
+          ...DEFAULTS.default.interactivity,
+          events: {
+            ...DEFAULTS.default.interactivity.events,
+            onclick: { enable: true, mode },
+          },
+        },
+      });
+    const place = (sim: Simulation, positions: [number, number][]) => {
+      sim.addParticles(positions.length);
+      positions.forEach(([x, y], i) => {
+        const p = sim.particles[i];
+        p.x = x;
+        p.y = y;
+        p.vx = p.vy = 0;
+      });
+    };
+
+    it("removes the particles nearest to the click", () => {
+      const sim = withClick("remove");
+      place(sim, [
+        [10, 10],
+        [60, 60],
+        [55, 50],
+        [190, 190],
+      ]);
+      sim.click(50, 50);
+
+      const { quantity } = DEFAULTS.default.interactivity.modes.remove;
+      expect(quantity).toBe(2);
+      expect(sim.particles.map((p) => [p.x, p.y])).toEqual([
+        [10, 10],
+        [190, 190],
+      ]);
+    });
+
+    it("splits nearby particles into fading fragments", () => {
+      const sim = withClick("explode");
+      place(sim, [
+        [50, 50],
+        [190, 190],
+      ]);
+      const target = sim.particles[0];
+      sim.click(55, 50);
+
+      const { fragments } = DEFAULTS.default.interactivity.modes.explode!;
+      expect(sim.particles).toHaveLength(1 + fragments);
+      expect(sim.particles).not.toContain(target);
+      const fragment = sim.particles[1];
+      expect(fragment.radius).toBeCloseTo(target.radius / Math.sqrt(fragments));
+      expect(fragment.getLifeLeft()).toBe(1);
+      expect(fragment.life).toBe(1000);
+    });
+
+    it("pushes and explodes particles without growing past the cap", () => {
+      const pusher = withClick("push");
+      pusher.addParticles(1999);
+      pusher.click(50, 50);
+      expect(pusher.particles).toHaveLength(2000);
+
+      const exploder = withClick("explode");
+      place(exploder, [[50, 50]]);
+      exploder.addParticles(1999);
+      exploder.particles.forEach((p, i) => i > 0 && (p.x = p.y = 190));
+      exploder.click(50, 50);
+      // The exploded particle only makes room for one fragment
+      expect(exploder.particles).toHaveLength(2000);
+    });
+
+    it("combines modes, e.g. a shockwave and a bubble pulse", () => {
+      const sim = withClick(["repulse", "bubble"]);
+      place(sim, [[60, 50]]);
+      const [p] = sim.particles;
+      sim.click(50, 50);
+
+      expect(p.impulseX).toBeGreaterThan(0);
+      const pulse = p.bubbleRadius;
+      expect(pulse).toBeGreaterThan(0);
+
+      // The pulse eases back over the bubble duration
+      sim.step(400);
+      expect(p.bubbleRadius).toBeCloseTo(pulse * 0.05);
+    });
+  });
+
+  describe("particle events", () => {
+    const still: IParticleParams = {
+      ...fixedCount(0),
+      sway: { ...DEFAULTS.default.sway, enable: false },
+      interactivity: {
+        ...DEFAULTS.default.interactivity,
+        events: {
+          onhover: { enable: false, mode: "repulse" },
+          onclick: { enable: false, mode: "push" },
+        },
+      },
+    };
+    const placeAt = (sim: Simulation, x: number, y: number, data?: unknown) => {
+      const [p] = sim.addParticles(1, { x, y }, data);
+      p.radius = 10;
+      p.rotationRadians = 0;
+      p.vx = p.vy = 0;
+      return p;
+    };
+
+    it("reports spawned and destroyed particles and frame stats", () => {
+      const spawned: Particle[] = [];
+      const destroyed: Particle[] = [];
+      const frames: TFrameStats[] = [];
+      const sim = makeSimulation(fixedCount(3), {
+        onParticleSpawn: (p) => spawned.push(p),
+        onParticleDestroy: (p) => destroyed.push(p),
+        onFrame: (stats) => frames.push(stats),
+      });
+      expect(spawned).toHaveLength(3);
+
+      sim.particles[0].setLifetime(10);
+      sim.step(20);
+      expect(destroyed).toEqual([spawned[0]]);
+      expect(frames).toEqual([{ time: 20, delta: 20, fps: 50, particles: 2 }]);
+    });
+
+    it("hands out data payloads from the config and the push API", () => {
+      const sim = makeSimulation({ ...fixedCount(2), data: ["story"] });
+      expect(sim.particles.map((p) => p.data)).toEqual(["story", undefined]);
+
+      const [pushed] = sim.addParticles(1, { x: 10, y: 10 }, { id: 7 });
+      expect(pushed.data).toEqual({ id: 7 });
+    });
+
+    it("hit-tests particles by the outline of their shape", () => {
+      for (const [type, hit] of [
+        ["edge", true],
+        ["circle", false],
+      ] as const) {
+        const sim = makeSimulation({ ...still, shape: { type } });
+        const p = placeAt(sim, 50, 50);
+        // The corner of the square, outside the circle
+        expect(sim.getParticleAt(58, 58)).toBe(hit ? p : undefined);
+      }
+    });
+
+    it("reports the topmost clicked particle, even without click modes", () => {
+      const clicks: [Particle, { x: number; y: number }][] = [];
+      const sim = makeSimulation(still, {
+        onParticleClick: (p, position) => clicks.push([p, position]),
+      });
+      placeAt(sim, 50, 50);
+      const top = placeAt(sim, 55, 50);
+
+      sim.click(52, 50);
+      sim.click(150, 150);
+      expect(clicks).toEqual([[top, { x: 52, y: 50 }]]);
+    });
+
+    it("reports hovered particles once, and when the pointer leaves", () => {
+      const log: string[] = [];
+      const sim = makeSimulation(still, {
+        onParticleHover: (p) => log.push(`hover ${p.data}`),
+        onParticleLeave: (p) => log.push(`leave ${p.data}`),
+      });
+      placeAt(sim, 50, 50, "a");
+      const b = placeAt(sim, 150, 150, "b");
+
+      const pointer = { x: 50, y: 50, active: true };
+      sim.pointers.set(1, pointer);
+      sim.step(16);
+      sim.step(16);
+      pointer.x = pointer.y = 150;
+      sim.step(16);
+      expect(log).toEqual(["hover a", "leave a", "hover b"]);
+
+      // Removed particles are left before they are destroyed
+      b.dead = true;
+      sim.step(16);
+      expect(log).toEqual(["hover a", "leave a", "hover b", "leave b"]);
+    });
+
+    it("hit-tests the tracked pointers without hover interactions or a step", () => {
+      const log: string[] = [];
+      const sim = makeSimulation(still, {
+        onParticleHover: (p) => log.push(`hover ${p.data}`),
+      });
+      placeAt(sim, 50, 50, "a");
+      placeAt(sim, 150, 150, "b");
+
+      sim.pointers.set(1, { x: 50, y: 50, active: true });
+      sim.step(16, []); // e.g. with reduced motion
+      sim.pointers.set(1, { x: 150, y: 150, active: true });
+      sim.updateHovered();
+      expect(log).toEqual(["hover a", "hover b"]);
+    });
+  });
+});
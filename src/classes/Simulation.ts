@@ -0,0 +1,519 @@
+import { Particle } from "./Particle";
+import { Emitter } from "./Emitter";
+import {
+  IParticleEvents,
+  IParticleParams,
+  TPointer,
+  TViewport,
+} from "../types";
+import {
+  applyAttraction,
+  applyCollisions,
+  applyFlowField,
+} from "../utils/physics";
+import {
+  applyClick,
+  applyInteractions,
+  TConnectLine,
+  TGrabLine,
+  toModeList,
+} from "../utils/interaction";
+import { QuadTree, Boundary } from "../utils/QuadTree";
+import { createRandom, TRandom } from "../utils/random";
+import { createNoise3D, TNoise3D } from "../utils/noise";
+
+/**
+ * The most particles a simulation holds. Standard hardware starts lagging around 1500-2000 with interactions.
+ */
+const MAX_PARTICLES = 2000;
+
+type TExplodeParams = NonNullable<
+  Required<IParticleParams>["interactivity"]["modes"]["explode"]
+>;
+
+/**
+ * Simulation class holding the DOM-free core of the engine: particles, emitters,
+ * physics and interactions. It never touches a canvas, window or document,
+ * so it can be stepped deterministically in Node (e.g. in tests).
+ */
+export class Simulation {
+  particles: Particle[] = [];
+  pointers = new Map<number, TPointer>(); // Active pointers by id
+  qtree: QuadTree; // The QuadTree built in the last step, reused for rendering
+  private qtreeStale: boolean = true; // Particles were added or removed since the QuadTree was built
+  private maxRadius: number = 0; // Largest particle radius when the QuadTree was built
+  private drawOrder = new Map<Particle, number>(); // Particle indices when the QuadTree was built, for the draw order
+  grabLines: TGrabLine[] = []; // Grab lines produced in the last step
+  connectLines: TConnectLine[] = []; // Connect lines produced in the last step
+  lights: TPointer[] = []; // Pointers casting a spotlight in the last step
+  time: number = 0; // Total simulated time in milliseconds
+  private hovered = new Set<Particle>(); // Particles under a pointer in the last step
+  private emitters: Emitter[] = [];
+  private rng: TRandom; // Re-created from the seed on every init
+  private noise: TNoise3D; // Flow field noise, shuffled with the generator
+
+  /**
+   * Random number generator shared by particles and emitters.
+   * Always calls the current generator, so a re-seed reaches everything created earlier.
+   */
+  readonly random: TRandom = () => this.rng();
+
+  /**
+   * Creates an instance of the Simulation.
+   * @param config The fully populated configuration.
+   * @param viewport The logical size of the simulated area. Mutated in place on resize.
+   * @param events (Optional) Callbacks for particle and frame events. Can be replaced at any time.
+   */
+  constructor(
+    public config: Required<IParticleParams>,
+    public viewport: TViewport,
+    public events: IParticleEvents = {},
+  ) {
+    this.rng = createRandom(config.seed);
+    this.noise = createNoise3D(this.random);
+    this.qtree = this.buildQuadTree();
+    this.init();
+    this.createEmitters();
+  }
+
+  /**
+   * Initializes particles based on the current configuration.
+   * With a seed, the generator restarts so the same seed and size always give the same scene.
+   */
+  init() {
+    this.particles.forEach((p) => this.release(p));
+    this.particles = [];
+    this.qtreeStale = true;
+    this.rng = createRandom(this.config.seed);
+    this.noise = createNoise3D(this.random);
+    const count = this.calculateParticleCount();
+
+    for (let i = 0; i < count; i++) {
+      const p = new Particle(
+        this.viewport,
+        this.config,
+        undefined,
+        i,
+        this.random,
+      );
+      p.counted = true;
+      this.spawn(p);
+    }
+  }
+
+  /**
+   * Creates the emitters from the current configuration.
+   * Emitters are kept across resizes so bursts don't fire again.
+   */
+  private createEmitters() {
+    this.emitters = this.config.emitters.map(
+      (e) => new Emitter(e, this.viewport, this.random),
+    );
+  }
+
+  /**
+   * Calculate the particle count based on density settings.
+   * @returns  The calculated number of particles.
+   */
+  calculateParticleCount(): number {
+    const { value, density } = this.config.number;
+    if (!density.enable) return value; // If density is disabled, return the fixed value.
+
+    // Calculate based on canvas area (in CSS pixels) and density area setting
+    const canvasArea = this.viewport.width * this.viewport.height;
+    const densityArea = Math.max(density.area, 0.001) * 1000; // Multiply by 1000 to scale appropriately
+    const count = Math.floor((canvasArea / densityArea) * value);
+
+    // PERFORMANCE CAP: Even if density is 1, don't exceed MAX_PARTICLES.
+    // Might revisit this cap in future versions with optimizations.
+    return Math.min(count, MAX_PARTICLES);
+  }
+
+  /**
+   * Builds a QuadTree of the current particles for spatial partitioning.
+   * This optimizes interaction calculations from O(n^2) to O(n log n)
+   * Also records the largest radius and the draw order, for hit-testing against the tree.
+   * @returns The QuadTree containing all particles.
+   */
+  private buildQuadTree(): QuadTree {
+    const { width, height } = this.viewport;
+    const qtree = new QuadTree(new Boundary(0, 0, width, height));
+    this.maxRadius = 0;
+    this.drawOrder.clear();
+    for (let i = 0, len = this.particles.length; i < len; i++) {
+      const p = this.particles[i];
+      qtree.insert(p);
+      this.drawOrder.set(p, i);
+      if (p.radius > this.maxRadius) this.maxRadius = p.radius;
+    }
+    return qtree;
+  }
+
+  /**
+   * Advances the simulation by the given amount of time.
+   * @param dtMs The time to advance in milliseconds.
+   * @param pointers (Optional) The pointers that drive the hover modes. Defaults to the tracked pointers,
+   * which are hit-tested for hover events either way.
+   * @param frameMs (Optional) The real time since the last frame, for the fps in the frame stats.
+   * Differs from dtMs when the caller caps or slows down time. Defaults to dtMs.
+   */
+  step(dtMs: number, pointers?: TPointer[], frameMs: number = dtMs) {
+    // Normalize delta to a 60fps baseline (This is for smoother animations across varying frame rates)
+    const delta = dtMs / (1000 / 60);
+    this.time += dtMs;
+
+    // Spawn the particles that emitters have due this step, without growing past the cap
+    for (const emitter of this.emitters) {
+      const spawned = emitter.update(
+        delta,
+        this.config,
+        this.particles.length,
+        MAX_PARTICLES - this.particles.length,
+      );
+      for (const p of spawned) this.spawn(p);
+    }
+
+    this.qtree = this.buildQuadTree();
+    this.qtreeStale = false;
+
+    // Apply attraction and other interactions
+    applyAttraction(this.particles, this.config, this.qtree);
+    applyFlowField(this.particles, this.config, this.noise, delta, this.time);
+    applyCollisions(this.particles, this.config, this.qtree);
+    this.updateHovered();
+    const interactions = applyInteractions(
+      this.qtree,
+      pointers ?? Array.from(this.pointers.values()),
+      this.config,
+      this.particles,
+      delta,
+    );
+    this.grabLines = interactions.grab;
+    this.connectLines = interactions.connect;
+    this.lights = interactions.light;
+
+    // Update each particle
+    let hasDead = false;
+    for (let i = 0, len = this.particles.length; i < len; i++) {
+      const p = this.particles[i];
+      p.update(delta, this.time);
+      if (p.dead) hasDead = true;
+    }
+
+    // Cull particles that reached the end of their lifetime
+    if (hasDead) this.cullDeadParticles();
+
+    this.events.onFrame?.({
+      time: this.time,
+      delta: dtMs,
+      fps: frameMs > 0 ? 1000 / frameMs : 0,
+      particles: this.particles.length,
+    });
+  }
+
+  /**
+   * Adds a particle and reports it to onParticleSpawn.
+   * @param p The particle to add.
+   */
+  private spawn(p: Particle) {
+    this.particles.push(p);
+    this.events.onParticleSpawn?.(p);
+  }
+
+  /**
+   * Cleans up a particle that was taken out of the simulation and reports it to onParticleDestroy.
+   * A hovered particle is left first, so hover and leave callbacks always come in pairs.
+   * @param p The removed particle.
+   */
+  private release(p: Particle) {
+    p.dead = true; // Lets emitters know it's gone
+    if (this.hovered.delete(p)) this.events.onParticleLeave?.(p);
+    p.destroy();
+    this.events.onParticleDestroy?.(p);
+  }
+
+  /**
+   * Hit-tests the tracked pointers and reports the particles they started or stopped hovering.
+   * Runs on every step, and can be called directly when pointers move without a step.
+   * Only runs while onParticleHover or onParticleLeave is set.
+   */
+  updateHovered() {
+    const { onParticleHover, onParticleLeave } = this.events;
+    if (!onParticleHover && !onParticleLeave) {
+      this.hovered.clear();
+      return;
+    }
+
+    const hovered = new Set<Particle>();
+    for (const pointer of this.pointers.values()) {
+      if (!pointer.active) continue;
+      const p = this.getParticleAt(pointer.x, pointer.y);
+      if (p) hovered.add(p);
+    }
+
+    for (const p of this.hovered) {
+      if (!hovered.has(p)) onParticleLeave?.(p);
+    }
+    for (const p of hovered) {
+      if (!this.hovered.has(p)) onParticleHover?.(p);
+    }
+    this.hovered = hovered;
+  }
+
+  /**
+   * Finds the particle at a position, following the outline of its shape.
+   * Uses the QuadTree, searching as far as the largest particle reached when it was built.
+   * @param x The x position to test.
+   * @param y The y position to test.
+   * @returns The topmost particle at the position, or undefined if there is none.
+   */
+  getParticleAt(x: number, y: number): Particle | undefined {
+    const qtree = this.getQuadTree();
+    const r = this.maxRadius * Math.SQRT2; // Reaches the corners of boxy shapes
+
+    // Particles are drawn in order, so the one with the highest index is on top
+    let top: Particle | undefined;
+    let topIndex = -1;
+    for (const p of qtree.query(new Boundary(x - r, y - r, r * 2, r * 2))) {
+      const index = this.drawOrder.get(p) ?? -1;
+      if (index > topIndex && !p.dead && p.containsPoint(x, y)) {
+        top = p;
+        topIndex = index;
+      }
+    }
+    return top;
+  }
+
+  /**
+   * Removes dead particles in place, keeping the order of the living ones.
+   */
+  private cullDeadParticles() {
+    this.qtreeStale = true;
+    let alive = 0;
+    for (let i = 0, len = this.particles.length; i < len; i++) {
+      const p = this.particles[i];
+      if (p.dead) this.release(p);
+      else this.particles[alive++] = p;
+    }
+    this.particles.length = alive;
+  }
+
+  /**
+   * Handles a click based on the configured click mode(s).
+   * The clicked particle is reported to onParticleClick first, even if click modes are disabled.
+   * The "pause" mode is left to the engine, since the simulation has no render loop.
+   * @param x The x position of the click.
+   * @param y The y position of the click.
+   * @returns void
+   */
+  click(x: number, y: number) {
+    if (this.events.onParticleClick) {
+      const p = this.getParticleAt(x, y);
+      if (p) this.events.onParticleClick(p, { x, y });
+    }
+
+    const { onclick } = this.config.interactivity.events;
+    if (!onclick.enable) return; // Do nothing if click interactions are disabled.
+
+    const modes = this.config.interactivity.modes;
+    const modeList = toModeList(onclick.mode);
+
+    // Remove and explode the particles nearest to the click, before new ones are pushed
+    if (modeList.includes("remove")) {
+      this.removeNearest(x, y, modes.remove.quantity);
+    }
+    if (modeList.includes("explode") && modes.explode) {
+      this.explode(x, y, modes.explode);
+    }
+
+    // Shockwave and bubble pulse only change particle state
+    applyClick(this.getQuadTree(), x, y, modeList, modes);
+
+    // In original Particles.js, the push mode just adds a fixed number of particles, here up to the cap
+    if (modeList.includes("push")) {
+      const room = MAX_PARTICLES - this.particles.length;
+      this.addParticles(Math.min(modes.push.quantity, room), { x, y });
+    }
+  }
+
+  /**
+   * Returns a QuadTree of the current particles, only rebuilding it if particles were added or removed.
+   * @returns The QuadTree containing all current particles.
+   */
+  private getQuadTree(): QuadTree {
+    if (this.qtreeStale) {
+      this.qtree = this.buildQuadTree();
+      this.qtreeStale = false;
+    }
+    return this.qtree;
+  }
+
+  /**
+   * Finds the particles nearest to a position, using the QuadTree instead of sorting all particles.
+   * The search area grows until enough particles are found or it covers the whole viewport.
+   * @param x The x position to search around.
+   * @param y The y position to search around.
+   * @param count The number of particles to find.
+   * @param maxDistance (Optional) Only find particles within this distance.
+   * @returns Up to 'count' particles, nearest first.
+   */
+  private findNearest(
+    x: number,
+    y: number,
+    count: number,
+    maxDistance: number = Infinity,
+  ): Particle[] {
+    const qtree = this.getQuadTree();
+    const { width, height } = this.viewport;
+    const limit = Math.min(maxDistance, Math.hypot(width, height) * 2);
+    const distSq = (p: Particle) => (p.x - x) ** 2 + (p.y - y) ** 2;
+
+    let candidates: Particle[] = [];
+    for (let r = Math.min(50, limit); ; r = Math.min(r * 2, limit)) {
+      // Only particles within the circle are guaranteed to be the nearest ones
+      candidates = qtree
+        .query(new Boundary(x - r, y - r, r * 2, r * 2))
+        .filter((p) => !p.dead && distSq(p) <= r * r);
+      if (candidates.length >= count || r >= limit) break;
+    }
+
+    return candidates.sort((a, b) => distSq(a) - distSq(b)).slice(0, count);
+  }
+
+  /**
+   * Removes the particles nearest to a position.
+   * @param x The x position of the click.
+   * @param y The y position of the click.
+   * @param count The number of particles to remove.
+   */
+  private removeNearest(x: number, y: number, count: number) {
+    const nearest = this.findNearest(x, y, count);
+    if (!nearest.length) return;
+    for (const p of nearest) p.dead = true;
+    this.cullDeadParticles();
+  }
+
+  /**
+   * Splits the particles near a position into smaller fragments that fly apart and fade out.
+   * @param x The x position of the click.
+   * @param y The y position of the click.
+   * @param explode The explode mode configuration.
+   */
+  private explode(x: number, y: number, explode: TExplodeParams) {
+    const nearby = this.findNearest(x, y, Infinity, explode.distance);
+    if (!nearby.length) return;
+
+    // The exploded particles make room, but the fragments don't grow the simulation past the cap
+    let room = MAX_PARTICLES - this.particles.length + nearby.length;
+    for (const p of nearby) {
+      p.dead = true;
+      const count = Math.min(explode.fragments, room);
+      room -= count;
+      const fragments = p.split(count, explode.speed);
+      for (const f of fragments) {
+        f.setLifetime(explode.life * 1000, true);
+        this.spawn(f);
+      }
+    }
+    this.cullDeadParticles();
+  }
+
+  /**
+   * Adds particles to the simulation.
+   * @param count The number of particles to add.
+   * @param position (Optional) Where to spawn the particles. If not provided, random positions are used.
+   * @param data (Optional) User payload for the particles, instead of the one from the config.
+   * @returns The added particles.
+   */
+  addParticles(
+    count: number,
+    position?: { x: number; y: number },
+    data?: unknown,
+  ) {
+    const added: Particle[] = [];
+    for (let i = 0; i < count; i++) {
+      const p = new Particle(
+        this.viewport,
+        this.config,
+        position,
+        this.particles.length,
+        this.random,
+      );
+      if (data !== undefined) p.data = data;
+      this.spawn(p);
+      added.push(p);
+    }
+    if (count > 0) this.qtreeStale = true;
+    return added;
+  }
+
+  /**
+   * Removes the most recently added particles from the simulation.
+   * @param count The number of particles to remove.
+   */
+  removeParticles(count: number) {
+    const removed = this.particles.splice(
+      Math.max(this.particles.length - count, 0),
+    );
+    removed.forEach((p) => this.release(p));
+    if (removed.length) this.qtreeStale = true;
+  }
+
+  /**
+   * Applies a new configuration without recreating the particles.
+   * Existing particles keep their positions, only the particle count change adds or removes particles.
+   * @param next The new, fully populated configuration.
+   * @returns The configuration sections that changed.
+   */
+  applyConfig(next: Required<IParticleParams>): Set<keyof IParticleParams> {
+    // Find the sections that actually changed, so particles only re-derive what they need to
+    const changed = new Set<keyof IParticleParams>();
+    for (const key of Object.keys(next) as (keyof IParticleParams)[]) {
+      if (JSON.stringify(this.config[key]) !== JSON.stringify(next[key])) {
+        changed.add(key);
+      }
+    }
+    if (changed.size === 0) return changed; // Nothing to do
+
+    this.config = next;
+    if (changed.has("seed")) this.rng = createRandom(next.seed);
+    if (changed.has("emitters")) this.createEmitters();
+
+    this.particles.forEach((p, i) => p.applyConfig(next, changed, i));
+
+    // Only a change in the particle count adds or removes particles
+    // Emitted, pushed and exploded particles don't count towards it, so they're left alone
+    if (changed.has("number")) {
+      const counted = this.particles.filter((p) => p.counted);
+      const diff = this.calculateParticleCount() - counted.length;
+      if (diff > 0) this.addParticles(diff).forEach((p) => (p.counted = true));
+      else if (diff < 0) {
+        counted.slice(diff).forEach((p) => (p.dead = true));
+        this.cullDeadParticles();
+      }
+    }
+
+    return changed;
+  }
+
+  /**
+   * Re-renders the depth blur sprites of all particles on their next draw.
+   * Sprites are rendered at the viewport's pixel ratio, so they need this when it changes.
+   */
+  invalidateSprites() {
+    this.particles.forEach((p) => p.invalidateSprites());
+  }
+
+  /**
+   * Destroys all particles and clears the simulation state.
+   */
+  destroy() {
+    this.particles.forEach((p) => this.release(p));
+    this.particles.length = 0; // clear the array
+    this.emitters = [];
+    this.pointers.clear();
+    this.grabLines = [];
+    this.connectLines = [];
+    this.lights = [];
+  }
+}
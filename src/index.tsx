@@ -1,33 +1,106 @@
-import { useEffect, useRef } from "react";
+import { forwardRef, useEffect, useImperativeHandle, useRef } from "react";
 import { Engine } from "./classes/Engine";
-import { IParticleParams, TPresets } from "./types";
+import {
+  IParticleEvents,
+  IParticleParams,
+  IParticlesHandle,
+  TPresets,
+} from "./types";
+
+export { Simulation } from "./classes/Simulation";
+export type { Particle } from "./classes/Particle";
+export { DEFAULTS } from "./lib/defaults";
+export { registerShape } from "./utils/shapeDrawers";
+export type { TShapeDrawer, TShapeState } from "./utils/shapeDrawers";
+export type {
+  IClock,
+  IImageParams,
+  ILineStyle,
+  IParticleEvents,
+  IParticleParams,
+  IParticlesHandle,
+  TClickMode,
+  TFrameStats,
+  THoverMode,
+  TPresets,
+  TViewport,
+} from "./types";
 
 /**
  * The Particles React component that initializes and renders the particle engine.
- * @param props Component properties including params, className, preset, and onLoaded callback.
+ * The ref exposes an imperative handle to control the engine without remounting.
+ * @param props Component properties including params, className, preset, and the onLoaded and event callbacks.
  * @returns A React functional component rendering a canvas element for particles.
  */
-export const Particles: React.FC<{
-  params?: IParticleParams;
-  className?: string;
-  preset?: TPresets;
-  onLoaded?: () => void;
-}> = ({ params = {}, className, preset = "default", onLoaded }) => {
+export const Particles = forwardRef<
+  IParticlesHandle,
+  IParticleEvents & {
+    params?: IParticleParams;
+    className?: string;
+    preset?: TPresets;
+    onLoaded?: () => void;
+  }
+>((props, ref) => {
+  const {
+    params = {},
+    className,
+    preset = "default",
+    onLoaded,
+    ...events // The remaining props are the event callbacks
+  } = props;
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const engineRef = useRef<Engine | null>(null);
   const paramsKey = JSON.stringify(params) + preset;
 
   useEffect(() => {
     let engine: Engine | null = null; // To hold the engine instance
 
     if (canvasRef.current) {
-      engine = new Engine(canvasRef.current, params, preset, onLoaded);
-      engine.render();
+      engine = new Engine(
+        canvasRef.current,
+        params,
+        preset,
+        onLoaded,
+        undefined, // The default clock
+        events,
+      ); // Starts its own render loop
     }
+    engineRef.current = engine;
 
     return () => {
       engine?.destroy();
+      engineRef.current = null;
     };
-  }, [paramsKey]); // Re-run effect if params or preset change
+  }, []); // The engine lives as long as the component is mounted
+
+  // Apply changed params or preset to the running engine instead of recreating it
+  const appliedKey = useRef(paramsKey);
+  useEffect(() => {
+    if (appliedKey.current === paramsKey) return; // Already applied on creation
+    appliedKey.current = paramsKey;
+    engineRef.current?.updateConfig(params, preset);
+  }, [paramsKey]);
+
+  // Callbacks are usually new functions on every render, so the latest ones are passed on each time
+  useEffect(() => {
+    engineRef.current?.setEvents(events);
+  });
+
+  // Forward the handle calls to whichever engine is currently mounted
+  useImperativeHandle(
+    ref,
+    () => ({
+      pause: () => engineRef.current?.pause(),
+      play: () => engineRef.current?.play(),
+      addParticles: (count, position, data) =>
+        engineRef.current?.addParticles(count, position, data),
+      removeParticles: (count) => engineRef.current?.removeParticles(count),
+      setParams: (params) => engineRef.current?.setParams(params),
+      getParticleCount: () => engineRef.current?.getParticleCount() ?? 0,
+      destroy: () => engineRef.current?.destroy(),
+    }),
+    [],
+  );
 
   return (
     <canvas
@@ -36,4 +109,6 @@ export const Particles: React.FC<{
       style={{ width: "100%", height: "100%", display: "block" }}
     />
   );
-};
+});
+
+Particles.displayName = "Particles";
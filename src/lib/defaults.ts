@@ -45,6 +45,11 @@ export const DEFAULTS: TDefaults = {
       out_mode: "out",
       attract: { enable: false, rotateX: 3000, rotateY: 3000 },
     },
+    forces: {
+      gravity: { enable: false, x: 0, y: 0.05, maxSpeed: 5 },
+      wind: { enable: false, x: 0.02, y: 0, gust: 0, frequency: 0.1 },
+      drag: 0,
+    },
     sway: {
       enable: true,
       amplitude: 10, // Moves 10px side to side
@@ -56,6 +61,21 @@ export const DEFAULTS: TDefaults = {
       focus: 0.1,
       maxBlur: 8,
     },
+    pixelRatio: { enable: true, max: 2 },
+    autoPause: { offscreen: true, hidden: true },
+    reducedMotion: { mode: "slow", factor: 0.25 },
+    emitters: [],
+    collisions: { enable: false, mode: "bounce" },
+    seed: null,
+    data: [],
+    trail: { enable: false, mode: "fade", fade: 0.2, length: 10, opacity: 0.5 },
+    links: {
+      enable: false,
+      distance: 150,
+      color: "#ffffff",
+      opacity: 0.4,
+      width: 1,
+    },
     interactivity: {
       detect_on: "canvas",
       events: {
@@ -63,11 +83,22 @@ export const DEFAULTS: TDefaults = {
         onclick: { enable: true, mode: "push" },
       },
       modes: {
-        grab: { distance: 100 },
+        grab: {
+          distance: 100,
+          color: "#ffffff",
+          opacity: 0.5,
+          width: 1,
+          connect: false,
+        },
         bubble: { distance: 200, size: 80, duration: 0.4 },
         repulse: { distance: 200, duration: 0.4 },
+        attract: { distance: 200, duration: 0.4 },
+        connect: { distance: 80, radius: 60, opacity: 0.5 },
+        slow: { distance: 200, factor: 0.2 },
+        light: { distance: 150, color: "#ffffff", opacity: 0.15, ambient: 0.1 },
         push: { quantity: 4 },
         remove: { quantity: 2 },
+        explode: { distance: 100, fragments: 4, speed: 3, life: 1 },
       },
     },
   },
@@ -114,17 +145,32 @@ export const DEFAULTS: TDefaults = {
       focus: 0.1,
       maxBlur: 0.9,
     },
+    pixelRatio: { enable: true, max: 2 },
+    autoPause: { offscreen: true, hidden: true },
+    reducedMotion: { mode: "slow", factor: 0.25 },
+    emitters: [],
+    collisions: { enable: false, mode: "bounce" },
+    seed: null,
+    data: [],
+    trail: { enable: false, mode: "fade", fade: 0.2, length: 10, opacity: 0.5 },
+    links: {
+      enable: false,
+      distance: 150,
+      color: "#ffffff",
+      opacity: 0.4,
+      width: 1,
+    },
     move: {
       enable: true,
-      speed: 6,
+      speed: 1, // Only a small initial drift, gravity and wind do the rest
       randomized: {
-        enable: true,
+        enable: false,
         min: 1,
         max: 3,
       },
       direction: {
         to: "bottom",
-        random: false,
+        random: true,
       },
       straight: false,
       out_mode: "out",
@@ -134,6 +180,11 @@ export const DEFAULTS: TDefaults = {
         rotateY: 1000,
       },
     },
+    forces: {
+      gravity: { enable: true, x: 0, y: 0.05, maxSpeed: 3 },
+      wind: { enable: true, x: 0.02, y: 0, gust: 0.8, frequency: 0.1 },
+      drag: 0.02,
+    },
     sway: {
       enable: true,
       amplitude: 4,
@@ -166,6 +217,10 @@ export const DEFAULTS: TDefaults = {
       modes: {
         grab: {
           distance: 100,
+          color: "#ffffff",
+          opacity: 0.5,
+          width: 1,
+          connect: false,
         },
         bubble: {
           distance: 200,
@@ -176,12 +231,17 @@ export const DEFAULTS: TDefaults = {
           distance: 200,
           duration: 0.4,
         },
+        attract: { distance: 200, duration: 0.4 },
+        connect: { distance: 80, radius: 60, opacity: 0.5 },
+        slow: { distance: 200, factor: 0.2 },
+        light: { distance: 150, color: "#ffffff", opacity: 0.15, ambient: 0.1 },
         push: {
           quantity: 4,
         },
         remove: {
           quantity: 2,
         },
+        explode: { distance: 100, fragments: 4, speed: 3, life: 1 },
       },
     },
   },
@@ -228,6 +288,27 @@ export const DEFAULTS: TDefaults = {
       focus: 0.1,
       maxBlur: 0.9,
     },
+    pixelRatio: { enable: true, max: 2 },
+    autoPause: { offscreen: true, hidden: true },
+    reducedMotion: { mode: "slow", factor: 0.25 },
+    emitters: [],
+    collisions: { enable: false, mode: "bounce" },
+    seed: null,
+    data: [],
+    trail: {
+      enable: true,
+      mode: "history",
+      fade: 0.2,
+      length: 8,
+      opacity: 0.4,
+    },
+    links: {
+      enable: false,
+      distance: 150,
+      color: "#ffffff",
+      opacity: 0.4,
+      width: 1,
+    },
     move: {
       enable: true,
       speed: 3,
@@ -248,6 +329,11 @@ export const DEFAULTS: TDefaults = {
         rotateY: 1000,
       },
     },
+    forces: {
+      gravity: { enable: false, x: 0, y: 0.05, maxSpeed: 5 },
+      wind: { enable: false, x: 0.02, y: 0, gust: 0, frequency: 0.1 },
+      drag: 0,
+    },
     sway: {
       enable: false,
       amplitude: 4,
@@ -280,6 +366,10 @@ export const DEFAULTS: TDefaults = {
       modes: {
         grab: {
           distance: 100,
+          color: "#ffffff",
+          opacity: 0.5,
+          width: 1,
+          connect: false,
         },
         bubble: {
           distance: 200,
@@ -290,12 +380,17 @@ export const DEFAULTS: TDefaults = {
           distance: 200,
           duration: 0.4,
         },
+        attract: { distance: 200, duration: 0.4 },
+        connect: { distance: 80, radius: 60, opacity: 0.5 },
+        slow: { distance: 200, factor: 0.2 },
+        light: { distance: 150, color: "#ffffff", opacity: 0.15, ambient: 0.1 },
         push: {
           quantity: 4,
         },
         remove: {
           quantity: 2,
         },
+        explode: { distance: 100, fragments: 4, speed: 3, life: 1 },
       },
     },
   },
@@ -342,6 +437,27 @@ export const DEFAULTS: TDefaults = {
       focus: 0.1,
       maxBlur: 0.9,
     },
+    pixelRatio: { enable: true, max: 2 },
+    autoPause: { offscreen: true, hidden: true },
+    reducedMotion: { mode: "slow", factor: 0.25 },
+    emitters: [],
+    collisions: { enable: false, mode: "bounce" },
+    seed: null,
+    data: [],
+    trail: {
+      enable: false,
+      mode: "history",
+      fade: 0.2,
+      length: 16,
+      opacity: 0.6,
+    },
+    links: {
+      enable: false,
+      distance: 150,
+      color: "#ffffff",
+      opacity: 0.4,
+      width: 1,
+    },
     move: {
       enable: false,
       speed: 6,
@@ -362,6 +478,11 @@ export const DEFAULTS: TDefaults = {
         rotateY: 1000,
       },
     },
+    forces: {
+      gravity: { enable: false, x: 0, y: 0.05, maxSpeed: 5 },
+      wind: { enable: false, x: 0.02, y: 0, gust: 0, frequency: 0.1 },
+      drag: 0,
+    },
     sway: {
       enable: false,
       amplitude: 4,
@@ -394,6 +515,10 @@ export const DEFAULTS: TDefaults = {
       modes: {
         grab: {
           distance: 100,
+          color: "#ffffff",
+          opacity: 0.5,
+          width: 1,
+          connect: false,
         },
         bubble: {
           distance: 200,
@@ -404,12 +529,17 @@ export const DEFAULTS: TDefaults = {
           distance: 200,
           duration: 0.4,
         },
+        attract: { distance: 200, duration: 0.4 },
+        connect: { distance: 80, radius: 60, opacity: 0.5 },
+        slow: { distance: 200, factor: 0.2 },
+        light: { distance: 150, color: "#ffffff", opacity: 0.15, ambient: 0.1 },
         push: {
           quantity: 4,
         },
         remove: {
           quantity: 2,
         },
+        explode: { distance: 100, fragments: 4, speed: 3, life: 1 },
       },
     },
   },
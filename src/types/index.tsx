@@ -1,13 +1,18 @@
 /**
  * Types and interfaces for particle configurations.
  */
+import type { Particle } from "../classes/Particle";
 export type TParticleShape =
   | "circle"
   | "edge"
   | "triangle"
   | "polygon"
   | "star"
-  | "image";
+  | "image"
+  | "sprite"
+  | "char"
+  | "path"
+  | "custom";
 
 /**
  * Possible directions for particle movement.
@@ -24,6 +29,70 @@ export type TParticleMoveDirection =
   | "left"
   | number;
 
+/**
+ * Possible modes of the hover interaction.
+ */
+export type THoverMode =
+  | "grab"
+  | "bubble"
+  | "repulse"
+  | "attract"
+  | "connect"
+  | "slow"
+  | "light";
+
+/**
+ * Possible modes of the click interaction.
+ */
+export type TClickMode =
+  | "push"
+  | "remove"
+  | "repulse"
+  | "bubble"
+  | "explode"
+  | "pause";
+
+/**
+ * A fixed value or a range to pick a random value from.
+ */
+export type TRange = number | { min: number; max: number };
+
+/**
+ * Configuration of a single image of the image shape.
+ * Width and height set the aspect ratio, without them the image's natural aspect ratio is kept.
+ */
+export interface IImageParams {
+  src: string;
+  width?: number;
+  height?: number;
+  weight?: number; // Relative chance of being picked with the "weighted" order
+}
+
+/**
+ * Styling of a line, shared by the links and the lines of the interaction modes.
+ */
+export interface ILineStyle {
+  color: string; // With a gradient, the color at the far end of the line
+  opacity: number;
+  width: number;
+  dash?: number[]; // Canvas dash pattern, e.g. [4, 2]
+  gradient?: boolean; // Blend from the particle's color to the color at the far end
+}
+
+/**
+ * Configuration of a particle emitter, which spawns particles over time at a position.
+ */
+export interface IEmitterParams {
+  position: { x: number; y: number; unit?: "percent" | "px" };
+  rate?: { quantity: number; delay: number };
+  burst?: number;
+  spawn?: { shape: "point" | "rect" | "circle"; width: number; height: number };
+  direction?: { angle: number; spread: number };
+  speed?: TRange;
+  life?: { duration: TRange; fadeOut?: boolean; shrinkOut?: boolean };
+  max?: number; // Most particles of this emitter alive at once
+}
+
 /**
  * Interface representing the parameters for a particle.
  * These parameters define the behavior and appearance of particles.
@@ -34,11 +103,44 @@ export interface IParticleParams {
     value: number;
     density: { enable: boolean; area: number };
   };
-  color?: { value: string | string[] };
+  color?: {
+    value: string | string[];
+    order?: "random" | "sequential";
+    hsl?: { h: TRange; s: TRange; l: TRange };
+    anim?: { enable: boolean; speed: number };
+  };
   shape?: {
     type: TParticleShape;
-    images?: string[];
+    images?: (string | IImageParams)[];
+    image?: {
+      order?: "random" | "sequential" | "weighted";
+      tint?: boolean;
+      fallback?: TParticleShape;
+    };
+    sprite?: {
+      src: string;
+      frameWidth: number;
+      frameHeight: number;
+      frames: number;
+      fps: number;
+      mode?: "loop" | "ping-pong" | "once";
+      randomStart?: boolean;
+    };
     polygon?: { sides: number };
+    char?: {
+      value: string | string[];
+      font?: string;
+      weight?: string | number;
+      fill?: boolean;
+      stroke?: { width: number; color: string };
+    };
+    path?: {
+      data?: string;
+      svg?: string;
+      viewBox?: [number, number, number, number];
+    };
+    stroke?: { width: number; color?: string; only?: boolean };
+    custom?: { name: string; params?: Record<string, unknown> };
   };
   opacity?: {
     value: number;
@@ -74,6 +176,23 @@ export interface IParticleParams {
     randomized: { enable: boolean; min?: number; max?: number };
     direction: { to: TParticleMoveDirection; random: boolean };
     attract: { enable: boolean; rotateX: number; rotateY: number };
+    noise?: {
+      enable: boolean;
+      scale: number; // Noise frequency per pixel, smaller values give wider swirls
+      strength: number; // How fast particles turn towards the field (0-1 per 60fps frame)
+      speed: number; // How fast the field evolves per second
+    };
+  };
+  forces?: {
+    gravity: { enable: boolean; x: number; y: number; maxSpeed: number };
+    wind: {
+      enable: boolean;
+      x: number;
+      y: number;
+      gust: number; // How much the strength varies over time, 0 for a steady wind
+      frequency: number; // Gusts per second
+    };
+    drag: number; // Fraction of the velocity lost per 60fps frame
   };
   sway?: {
     enable: boolean;
@@ -82,17 +201,42 @@ export interface IParticleParams {
     random: boolean;
   };
   depthBlur?: { enable: boolean; focus: number; maxBlur: number };
+  pixelRatio?: { enable: boolean; max: number };
+  autoPause?: { offscreen: boolean; hidden: boolean };
+  reducedMotion?: { mode: "static" | "slow" | "ignore"; factor: number };
+  emitters?: IEmitterParams[];
+  collisions?: { enable: boolean; mode: "bounce" | "absorb" | "destroy" };
+  links?: ILineStyle & {
+    enable: boolean;
+    distance: number;
+    max?: number;
+    triangles?: { enable: boolean; color?: string; opacity: number };
+  };
+  trail?: {
+    enable: boolean;
+    mode: "fade" | "history";
+    fade: number; // Fraction of the previous frame cleared every frame ("fade")
+    background?: string; // Color to fade towards, transparent if not set ("fade")
+    length: number; // Number of positions kept per particle ("history")
+    opacity: number; // Opacity at the head of the trail ("history")
+    width?: number; // Line width at the head, defaults to the particle diameter ("history")
+  };
+  seed?: number | null; // null for a different scene on every load
+  data?: unknown[]; // User payloads, handed to the particles in order (the first one to the first particle)
   interactivity?: {
     detect_on: "canvas" | "window";
     events: {
-      onhover: { enable: boolean; mode: "grab" | "bubble" | "repulse" };
+      onhover: { enable: boolean; mode: THoverMode | THoverMode[] };
       onclick: {
         enable: boolean;
-        mode: "push" | "remove";
+        mode: TClickMode | TClickMode[];
       };
     };
     modes: {
-      grab: { distance: number };
+      grab: Partial<ILineStyle> & {
+        distance: number;
+        connect?: boolean; // Also link the grabbed particles to each other
+      };
       bubble: {
         distance: number;
         size: number;
@@ -100,12 +244,92 @@ export interface IParticleParams {
         opacity?: number;
       };
       repulse: { distance: number; duration: number };
+      attract?: { distance: number; duration: number };
+      connect?: { distance: number; radius: number; opacity: number };
+      slow?: { distance: number; factor: number };
+      light?: {
+        distance: number;
+        color: string;
+        opacity: number;
+        ambient: number; // Visibility of the particles outside the light (0-1)
+      };
       push: { quantity: number };
       remove: { quantity: number };
+      explode?: {
+        distance: number;
+        fragments: number; // Number of fragments per particle
+        speed: number; // Speed of the fragments in pixels per 60fps frame
+        life: number; // Seconds until the fragments faded out
+      };
     };
   };
 }
 
+/**
+ * The logical (CSS pixel) size of the drawing area and the ratio of its backing store.
+ * All positions, sizes and distances are expressed in these logical units.
+ */
+export type TViewport = { width: number; height: number; pixelRatio: number };
+
+/**
+ * A pointer (mouse, touch or pen) tracked by the engine, in canvas coordinates.
+ */
+export type TPointer = { x: number; y: number; active: boolean };
+
+/**
+ * The time source that drives the engine's render loop.
+ * Inject a custom clock to control frame timing, e.g. in tests or for frame-by-frame capture.
+ */
+export interface IClock {
+  now: () => number;
+  requestFrame: (callback: (time: number) => void) => number;
+  cancelFrame: (id: number) => void;
+}
+
+/**
+ * Stats of a single simulation step, passed to the onFrame callback.
+ */
+export type TFrameStats = {
+  time: number; // Total simulated time in milliseconds
+  delta: number; // Time advanced in this step in milliseconds
+  fps: number; // Frame rate from the real time between frames, 0 for still frames
+  particles: number; // Number of particles after the step
+};
+
+/**
+ * Callbacks for events of single particles and the simulation.
+ * Positions are in canvas coordinates. Particles carry their user payload in `data`.
+ */
+export interface IParticleEvents {
+  onParticleClick?: (
+    particle: Particle,
+    position: { x: number; y: number }
+  ) => void;
+  onParticleHover?: (particle: Particle) => void;
+  onParticleLeave?: (particle: Particle) => void;
+  onParticleSpawn?: (particle: Particle) => void;
+  onParticleDestroy?: (particle: Particle) => void;
+  onFrame?: (stats: TFrameStats) => void;
+}
+
+/**
+ * Imperative handle exposed by the Particles component through its ref.
+ * Mirrors the public methods of the engine.
+ */
+export interface IParticlesHandle {
+  pause: () => void;
+  play: () => void;
+  addParticles: (
+    count: number,
+    position?: { x: number; y: number },
+    data?: unknown
+  ) => void;
+  removeParticles: (count: number) => void;
+  setParams: (params: IParticleParams) => void;
+  getParticleCount: () => number;
+  destroy: () => void;
+}
+
 // Define presets and defaults
 export type TPresets = "default" | "snow" | "stars" | "fireflies";
 export type TDefaults = { [key in TPresets]: Required<IParticleParams> };
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { Particle } from "../classes/Particle";
+import { QuadTree, Boundary } from "./QuadTree";
+import { DEFAULTS } from "../lib/defaults";
+
+const viewport = { width: 100, height: 100, pixelRatio: 1 };
+const at = (x: number, y: number) =>
+  new Particle(viewport, DEFAULTS.default, { x, y });
+
+describe("Boundary", () => {
+  it("contains points on and inside its edges", () => {
+    const b = new Boundary(0, 0, 10, 10);
+    expect(b.contains(at(0, 0))).toBe(true);
+    expect(b.contains(at(10, 10))).toBe(true);
+    expect(b.contains(at(5, 5))).toBe(true);
+    expect(b.contains(at(11, 5))).toBe(false);
+  });
+
+  it("detects intersecting and separate boundaries", () => {
+    const b = new Boundary(0, 0, 10, 10);
+    expect(b.intersects(new Boundary(5, 5, 10, 10))).toBe(true);
+    expect(b.intersects(new Boundary(20, 20, 5, 5))).toBe(false);
+  });
+});
+
+describe("QuadTree", () => {
+  it("rejects particles outside its boundary", () => {
+    const qtree = new QuadTree(new Boundary(0, 0, 100, 100));
+    expect(qtree.insert(at(150, 50))).toBe(false);
+    expect(qtree.insert(at(50, 50))).toBe(true);
+  });
+
+  it("subdivides and still finds every particle", () => {
+    const qtree = new QuadTree(new Boundary(0, 0, 100, 100));
+    const particles = [];
+    for (let i = 0; i < 50; i++) {
+      const p = at((i * 37) % 100, (i * 53) % 100);
+      particles.push(p);
+      qtree.insert(p);
+    }
+
+    const all = qtree.query(new Boundary(0, 0, 100, 100));
+    expect(all).toHaveLength(particles.length);
+    expect(new Set(all)).toEqual(new Set(particles));
+  });
+
+  it("only returns particles within the queried range", () => {
+    const qtree = new QuadTree(new Boundary(0, 0, 100, 100));
+    const near = at(10, 10);
+    const far = at(90, 90);
+    for (let i = 0; i < 10; i++) qtree.insert(at(50 + i, 50));
+    qtree.insert(near);
+    qtree.insert(far);
+
+    const found = qtree.query(new Boundary(0, 0, 20, 20));
+    expect(found).toEqual([near]);
+  });
+});
@@ -0,0 +1,10 @@
+import { IClock } from "../types";
+
+/**
+ * The default clock, driven by requestAnimationFrame and performance.now().
+ */
+export const animationFrameClock: IClock = {
+  now: () => performance.now(),
+  requestFrame: (callback) => requestAnimationFrame(callback),
+  cancelFrame: (id) => cancelAnimationFrame(id),
+};
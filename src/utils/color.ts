@@ -0,0 +1,137 @@
+import { IParticleParams } from "../types";
+import { pickFromRange } from "./config";
+import { TRandom } from "./random";
+
+/**
+ * A color in HSL space. Hue is in degrees, saturation and lightness in percent.
+ */
+export type THsl = { h: number; s: number; l: number };
+
+/**
+ * Converts RGB components (0-255) to HSL.
+ * @returns The HSL representation of the color.
+ */
+const rgbToHsl = (r: number, g: number, b: number): THsl => {
+  r /= 255;
+  g /= 255;
+  b /= 255;
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const l = (max + min) / 2;
+  let h = 0;
+  let s = 0;
+
+  if (max !== min) {
+    const d = max - min;
+    s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
+    if (max === r) h = (g - b) / d + (g < b ? 6 : 0);
+    else if (max === g) h = (b - r) / d + 2;
+    else h = (r - g) / d + 4;
+    h *= 60;
+  }
+
+  return { h, s: s * 100, l: l * 100 };
+};
+
+/**
+ * Parses a hex, rgb() or hsl() color string into HSL.
+ * Named CSS colors can't be parsed without the DOM, so they return null.
+ * @param color The color string to parse.
+ * @returns The HSL representation, or null if the format isn't supported.
+ */
+export const parseColor = (color: string): THsl | null => {
+  const value = color.trim().toLowerCase();
+
+  if (value.startsWith("#")) {
+    let hex = value.slice(1);
+    if (hex.length === 3 || hex.length === 4) {
+      hex = hex
+        .slice(0, 3)
+        .split("")
+        .map((c) => c + c)
+        .join("");
+    }
+    if (hex.length !== 6 && hex.length !== 8) return null;
+    const num = parseInt(hex.slice(0, 6), 16);
+    if (isNaN(num)) return null;
+    return rgbToHsl((num >> 16) & 255, (num >> 8) & 255, num & 255);
+  }
+
+  const match = value.match(/^(rgb|hsl)a?\(([^)]+)\)$/);
+  if (!match) return null;
+  const parts = match[2].split(/[\s,/]+/).map((v) => parseFloat(v));
+  if (parts.length < 3 || parts.slice(0, 3).some(isNaN)) return null;
+
+  return match[1] === "rgb"
+    ? rgbToHsl(parts[0], parts[1], parts[2])
+    : { h: parts[0], s: parts[1], l: parts[2] };
+};
+
+/**
+ * Formats an HSL color as a CSS color string.
+ * @param hsl The color to format.
+ * @returns A CSS hsl() string.
+ */
+export const hslToString = ({ h, s, l }: THsl): string =>
+  `hsl(${h.toFixed(1)}, ${s.toFixed(1)}%, ${l.toFixed(1)}%)`;
+
+// Hue step of roundColor, in degrees
+const HUE_STEP = 4;
+
+// Translucent colors, parseColor drops their alpha
+const TRANSLUCENT = /^(rgba|hsla)\(|\/|^#(\w{4}|\w{8})$/;
+
+/**
+ * Rounds a color to whole percents and a few degrees of hue, for caches keyed by color.
+ * Hue animation would otherwise create a new color, and a new cache entry, on every frame.
+ * Colors that can't be parsed or are translucent are returned unchanged.
+ * @param color The CSS color to round.
+ * @returns The rounded CSS color.
+ */
+export const roundColor = (color: string): string => {
+  const hsl = TRANSLUCENT.test(color.trim()) ? null : parseColor(color);
+  if (!hsl) return color;
+  return hslToString({
+    h: (Math.round(hsl.h / HUE_STEP) * HUE_STEP) % 360,
+    s: Math.round(hsl.s),
+    l: Math.round(hsl.l),
+  });
+};
+
+/**
+ * Picks the color for a single particle based on the color configuration.
+ * - `hsl` ranges take priority and generate a color within the ranges.
+ * - `"random"` generates a fully saturated color with a random hue.
+ * - Arrays are picked from at random or in sequence, depending on `order`.
+ * @param color The color configuration.
+ * @param index The index of the particle, used for sequential ordering.
+ * @param random (Optional) The random number generator to use.
+ * @returns The CSS color string for the particle.
+ */
+export const pickColor = (
+  color: Required<IParticleParams>["color"],
+  index: number,
+  random: TRandom = Math.random,
+): string => {
+  if (color.hsl) {
+    return hslToString({
+      h: pickFromRange(color.hsl.h, random),
+      s: pickFromRange(color.hsl.s, random),
+      l: pickFromRange(color.hsl.l, random),
+    });
+  }
+
+  const values = Array.isArray(color.value) ? color.value : [color.value];
+  if (!values.length) return "#ffffff"; // Nothing to pick from
+
+  const value =
+    color.order === "sequential"
+      ? values[index % values.length]
+      : values[Math.floor(random() * values.length)];
+
+  if (value === "random") {
+    return hslToString({ h: random() * 360, s: 100, l: 50 });
+  }
+
+  return value;
+};
@@ -1,3 +1,6 @@
+import { TRange } from "../types";
+import { TRandom } from "./random";
+
 /**
  * Recursively merges two objects. This is used to merge user-defined
  * particle configurations with default settings.
@@ -8,7 +11,13 @@
 export const deepMerge = (target: any, source: any): any => {
   const result = { ...target };
   for (const key in source) {
-    if (source[key] instanceof Object && key in target) {
+    // Arrays are replaced as a whole, only plain objects are merged recursively
+    if (
+      source[key] instanceof Object &&
+      !Array.isArray(source[key]) &&
+      target[key] instanceof Object &&
+      !Array.isArray(target[key])
+    ) {
       result[key] = deepMerge(target[key], source[key]);
     } else {
       result[key] = source[key];
@@ -16,3 +25,17 @@ export const deepMerge = (target: any, source: any): any => {
   }
   return result;
 };
+
+/**
+ * Picks a random value from a fixed number or a min/max range.
+ * @param range The number or range to pick from.
+ * @param random (Optional) The random number generator to use.
+ * @returns A value within the range.
+ */
+export const pickFromRange = (
+  range: TRange,
+  random: TRandom = Math.random,
+): number =>
+  typeof range === "number"
+    ? range
+    : random() * (range.max - range.min) + range.min;
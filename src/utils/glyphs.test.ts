@@ -0,0 +1,86 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { getGlyphSprite } from "./glyphs";
+
+type TCall = [string, ...unknown[]];
+
+// A canvas that records the text drawn on it, since there's no DOM in tests
+const createCanvas = (calls: TCall[]) => {
+  const ctx = {
+    font: "",
+    fillStyle: "",
+    strokeStyle: "",
+    lineWidth: 0,
+    measureText: (text: string) => ({ width: text.length * 10 }),
+    fillText: (...args: unknown[]) =>
+      calls.push(["fillText", ctx.fillStyle, ...args]),
+    strokeText: (...args: unknown[]) =>
+      calls.push(["strokeText", ctx.strokeStyle, ctx.lineWidth, ...args]),
+  };
+  return { width: 0, height: 0, getContext: () => ctx };
+};
+
+describe("getGlyphSprite", () => {
+  let calls: TCall[];
+  let createElement: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    calls = [];
+    createElement = vi.fn(() => createCanvas(calls));
+    vi.stubGlobal("document", { createElement });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("renders a glyph once and reuses the sprite", () => {
+    const config = { value: "a" };
+    const sprite = getGlyphSprite("a", 10, 1, "red", config);
+    expect(getGlyphSprite("a", 10, 1, "red", config)).toBe(sprite);
+    expect(createElement).toHaveBeenCalledTimes(1);
+
+    // Anything that changes the pixels renders a new sprite
+    expect(getGlyphSprite("a", 10, 1, "blue", config)).not.toBe(sprite);
+    expect(getGlyphSprite("a", 10, 2, "red", config)).not.toBe(sprite);
+    expect(createElement).toHaveBeenCalledTimes(3);
+  });
+
+  it("reuses the sprite for close colors while the hue animates", () => {
+    const draw = (color: string) =>
+      getGlyphSprite("h", 10, 1, color, { value: "h" });
+    const sprite = draw("hsl(120, 50%, 40%)");
+    expect(draw("hsl(121.3, 50.2%, 40%)")).toBe(sprite);
+    expect(draw("hsl(130, 50%, 40%)")).not.toBe(sprite);
+    expect(calls[0]).toEqual([
+      "fillText",
+      "hsl(120.0, 50.0%, 40.0%)",
+      "h",
+      8,
+      8,
+    ]);
+  });
+
+  it("renders the fill and stroke at the pixel scale", () => {
+    const sprite = getGlyphSprite("b", 10, 2, "red", {
+      value: "b",
+      fill: false,
+      stroke: { width: 1.5, color: "black" },
+    });
+
+    expect(calls).toEqual([["strokeText", "black", 3, "b", 17, 17]]);
+    // Room for the glyph at 1.2 times the font size, plus the stroke and 2px on each side
+    expect(sprite.height).toBe(Math.ceil(20 * 1.2 + (3 + 2) * 2));
+  });
+
+  it("evicts the oldest sprites past 512 glyphs", () => {
+    const config = { value: "" };
+    const oldest = getGlyphSprite("oldest", 10, 1, "green", config);
+    const newer = getGlyphSprite("newer", 10, 1, "green", config);
+    for (let i = 0; i < 511; i++) {
+      getGlyphSprite(`glyph ${i}`, 10, 1, "green", config);
+    }
+
+    expect(getGlyphSprite("newer", 10, 1, "green", config)).toBe(newer);
+    expect(getGlyphSprite("oldest", 10, 1, "green", config)).not.toBe(oldest);
+  });
+});
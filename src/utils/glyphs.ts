@@ -0,0 +1,81 @@
+import { IParticleParams } from "../types";
+import { roundColor } from "./color";
+
+type TCharParams = NonNullable<Required<IParticleParams>["shape"]["char"]>;
+
+// Glyph sprites shared by all particles, keyed by everything that changes their pixels
+// Colors are rounded so hue animation reuses sprites, and the oldest sprites are evicted past the limit
+const glyphCache = new Map<string, HTMLCanvasElement>();
+const MAX_GLYPHS = 512;
+
+/**
+ * Returns a pre-rendered sprite of a glyph, rendering and caching it on first use.
+ * Text rendering is expensive, drawing a cached sprite is cheap even for hundreds of emoji.
+ * @param char The character or emoji to render.
+ * @param size The font size in logical pixels.
+ * @param scale The pixel scale to render at (device pixel ratio and context scaling).
+ * @param color The fill color of the glyph, rounded to limit the number of sprites.
+ * @param config The char shape configuration.
+ * @returns The sprite, centered on the glyph, in device pixels.
+ */
+export const getGlyphSprite = (
+  char: string,
+  size: number,
+  scale: number,
+  color: string,
+  config: TCharParams,
+): HTMLCanvasElement => {
+  const { font = "sans-serif", weight = 400, fill = true, stroke } = config;
+  const strokeWidth = stroke?.width ?? 0;
+  const fillColor = roundColor(color);
+  const strokeColor = stroke && roundColor(stroke.color);
+  const key = [
+    char,
+    size,
+    scale,
+    fillColor,
+    font,
+    weight,
+    fill,
+    strokeWidth,
+    strokeColor,
+  ].join("|");
+
+  const cached = glyphCache.get(key);
+  if (cached) return cached;
+
+  const canvas = document.createElement("canvas");
+  const fontString = `${weight} ${size * scale}px ${font}`;
+  let ctx = canvas.getContext("2d")!;
+
+  // Measure the glyph first, emoji and wide letters can be wider than the font size
+  ctx.font = fontString;
+  const width = Math.max(ctx.measureText(char).width, size * scale);
+  const padding = strokeWidth * scale + 2;
+  canvas.width = Math.ceil(width * 1.2 + padding * 2);
+  canvas.height = Math.ceil(size * scale * 1.2 + padding * 2);
+
+  // Resizing resets the context state, so set it up again
+  ctx = canvas.getContext("2d")!;
+  ctx.font = fontString;
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+
+  const x = canvas.width / 2;
+  const y = canvas.height / 2;
+  if (fill) {
+    ctx.fillStyle = fillColor;
+    ctx.fillText(char, x, y);
+  }
+  if (strokeColor && strokeWidth > 0) {
+    ctx.lineWidth = strokeWidth * scale;
+    ctx.strokeStyle = strokeColor;
+    ctx.strokeText(char, x, y);
+  }
+
+  if (glyphCache.size >= MAX_GLYPHS) {
+    glyphCache.delete(glyphCache.keys().next().value!);
+  }
+  glyphCache.set(key, canvas);
+  return canvas;
+};
@@ -0,0 +1,60 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { getTintedImage, pickImage } from "./images";
+
+describe("pickImage", () => {
+  const images = [
+    "a.png",
+    { src: "b.png", weight: 3 },
+    { src: "c.png", weight: 0 },
+  ];
+
+  it("cycles through the images in sequential order", () => {
+    const picked = [0, 1, 2, 3].map(
+      (i) => pickImage(images, "sequential", i, Math.random)?.src,
+    );
+    expect(picked).toEqual(["a.png", "b.png", "c.png", "a.png"]);
+  });
+
+  it("picks proportionally to the weights", () => {
+    expect(pickImage(images, "weighted", 0, () => 0)?.src).toBe("a.png");
+    expect(pickImage(images, "weighted", 0, () => 0.3)?.src).toBe("b.png");
+    expect(pickImage(images, "weighted", 0, () => 0.99)?.src).toBe("b.png");
+  });
+
+  it("returns undefined without images", () => {
+    expect(pickImage([], "random", 0, Math.random)).toBeUndefined();
+  });
+});
+
+describe("getTintedImage", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("reuses the tinted copy for close colors while the hue animates", () => {
+    const fills: unknown[] = [];
+    const createCanvas = () => {
+      const ctx = {
+        fillStyle: "",
+        globalCompositeOperation: "",
+        drawImage: () => {},
+        fillRect: () => fills.push(ctx.fillStyle),
+      };
+      return { width: 0, height: 0, getContext: () => ctx };
+    };
+    vi.stubGlobal("document", { createElement: createCanvas });
+    const img = {
+      src: "tint.png",
+      naturalWidth: 10,
+      naturalHeight: 10,
+    } as HTMLImageElement;
+
+    const copy = getTintedImage(img, "hsl(200, 80%, 60%)");
+    expect(getTintedImage(img, "hsl(201.2, 80.4%, 60%)")).toBe(copy);
+    expect(getTintedImage(img, "hsl(210, 80%, 60%)")).not.toBe(copy);
+    expect(fills).toEqual([
+      "hsl(200.0, 80.0%, 60.0%)",
+      "hsl(212.0, 80.0%, 60.0%)",
+    ]);
+  });
+});
@@ -0,0 +1,123 @@
+import { IImageParams } from "../types";
+import { roundColor } from "./color";
+import { TRandom } from "./random";
+
+/**
+ * A shared image and the promise of its loading, resolving to whether it loaded.
+ */
+type TImageEntry = { img: HTMLImageElement; loaded: Promise<boolean> };
+
+// Images shared by all particles, so 500 particles with the same URL load it only once
+const imageCache = new Map<string, TImageEntry>();
+
+// Tinted copies of images, keyed by source and color
+// Colors are rounded so hue animation reuses copies, and the oldest copies are evicted past the limit
+const tintCache = new Map<string, HTMLCanvasElement>();
+const MAX_TINTS = 256;
+const MAX_TINT_SIZE = 256; // Longest side of a tinted copy in pixels
+
+/**
+ * Normalizes an image entry of the configuration to its object form.
+ * @param image The image URL or image configuration.
+ * @returns The image configuration.
+ */
+export const toImageParams = (image: string | IImageParams): IImageParams =>
+  typeof image === "string" ? { src: image } : image;
+
+/**
+ * Picks an image for a single particle based on the selection mode.
+ * - `random` picks any image with the same chance.
+ * - `sequential` cycles through the images in order of the particle index.
+ * - `weighted` picks at random, proportional to each image's `weight` (default 1).
+ * @param images The configured images.
+ * @param order The selection mode.
+ * @param index The index of the particle, used for sequential ordering.
+ * @param random The random number generator to use.
+ * @returns The picked image configuration, or undefined if there are no images.
+ */
+export const pickImage = (
+  images: (string | IImageParams)[],
+  order: "random" | "sequential" | "weighted",
+  index: number,
+  random: TRandom,
+): IImageParams | undefined => {
+  if (!images.length) return undefined;
+
+  if (order === "sequential")
+    return toImageParams(images[index % images.length]);
+
+  if (order === "weighted") {
+    const entries = images.map(toImageParams);
+    const weights = entries.map((e) => Math.max(e.weight ?? 1, 0));
+    const total = weights.reduce((sum, w) => sum + w, 0);
+    let r = random() * total;
+    for (let i = 0; i < entries.length; i++) {
+      r -= weights[i];
+      if (r < 0) return entries[i];
+    }
+    return entries[entries.length - 1];
+  }
+
+  return toImageParams(images[Math.floor(random() * images.length)]);
+};
+
+/**
+ * Returns the shared image for a URL, starting to load it on first use.
+ * @param src The image URL.
+ * @returns The image and a promise resolving to true once loaded, or false if loading failed.
+ */
+export const loadImage = (src: string): TImageEntry => {
+  const cached = imageCache.get(src);
+  if (cached) return cached;
+
+  const img = new Image();
+  const loaded = new Promise<boolean>((resolve) => {
+    img.onload = () => resolve(true);
+    img.onerror = () => resolve(false); // fail-safe
+  });
+  img.src = src;
+
+  const entry = { img, loaded };
+  imageCache.set(src, entry);
+  return entry;
+};
+
+/**
+ * Returns a copy of the image tinted with the given color, rendering and caching it on first use.
+ * The color is multiplied with the image, so shading is kept, and the image's transparency is preserved.
+ * @param img The loaded image to tint.
+ * @param color The CSS color to tint with, rounded to limit the number of copies.
+ * @returns The tinted copy.
+ */
+export const getTintedImage = (
+  img: HTMLImageElement,
+  color: string,
+): HTMLCanvasElement => {
+  const tint = roundColor(color);
+  const key = `${img.src}|${tint}`;
+  const cached = tintCache.get(key);
+  if (cached) return cached;
+
+  const scale = Math.min(
+    MAX_TINT_SIZE / Math.max(img.naturalWidth, img.naturalHeight),
+    1,
+  );
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(Math.round(img.naturalWidth * scale), 1);
+  canvas.height = Math.max(Math.round(img.naturalHeight * scale), 1);
+  const ctx = canvas.getContext("2d")!;
+
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  ctx.globalCompositeOperation = "multiply";
+  ctx.fillStyle = tint;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  // Multiplying fills the transparent areas too, so cut them out again
+  ctx.globalCompositeOperation = "destination-in";
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+
+  if (tintCache.size >= MAX_TINTS) {
+    tintCache.delete(tintCache.keys().next().value!);
+  }
+  tintCache.set(key, canvas);
+  return canvas;
+};
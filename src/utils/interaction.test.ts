@@ -0,0 +1,177 @@
+import { describe, expect, it } from "vitest";
+import { Particle } from "../classes/Particle";
+import { IParticleParams, THoverMode } from "../types";
+import { DEFAULTS } from "../lib/defaults";
+import { deepMerge } from "./config";
+import { applyInteractions } from "./interaction";
+import { QuadTree, Boundary } from "./QuadTree";
+
+const viewport = { width: 200, height: 200, pixelRatio: 1 };
+const makeConfig = (
+  mode: THoverMode | THoverMode[],
+  duration = 0,
+): Required<IParticleParams> =>
+  deepMerge(DEFAULTS.default, {
+    interactivity: {
+      events: { onhover: { enable: true, mode } },
+      modes: {
+        grab: { distance: 50 },
+        bubble: { distance: 50, size: 20, duration, opacity: 1 },
+        repulse: { distance: 50, duration },
+        attract: { distance: 50, duration },
+        connect: { distance: 100, radius: 50, opacity: 0.5 },
+        slow: { distance: 50, factor: 0.2 },
+        light: { distance: 50, color: "#fff", opacity: 0.1, ambient: 0 },
+      },
+    },
+  });
+const setup = (config: Required<IParticleParams>) => {
+  const near = new Particle(viewport, config, { x: 110, y: 100 });
+  const far = new Particle(viewport, config, { x: 190, y: 190 });
+  for (const p of [near, far]) {
+    p.radius = p.initialRadius = 2;
+    p.opacity = p.initialOpacity = 0.5;
+  }
+  const qtree = new QuadTree(new Boundary(0, 0, 200, 200));
+  qtree.insert(near);
+  qtree.insert(far);
+  return { near, far, qtree };
+};
+const pointer = { x: 100, y: 100, active: true };
+
+describe("applyInteractions", () => {
+  it("returns grab lines that fade with distance for nearby particles only", () => {
+    const config = makeConfig("grab");
+    const { near, qtree } = setup(config);
+    const lines = applyInteractions(qtree, [pointer], config, []).grab;
+
+    expect(lines).toHaveLength(1);
+    expect(lines[0].particle).toBe(near);
+    expect(lines[0].opacity).toBeCloseTo(1 - 10 / 50);
+  });
+
+  it("ignores inactive pointers", () => {
+    const config = makeConfig("grab");
+    const { qtree } = setup(config);
+    const lines = applyInteractions(
+      qtree,
+      [{ ...pointer, active: false }],
+      config,
+      [],
+    );
+    expect(lines.grab).toHaveLength(0);
+  });
+
+  it("grows nearby particles in bubble mode and resets them afterwards", () => {
+    const config = makeConfig("bubble");
+    const { near, far, qtree } = setup(config);
+
+    applyInteractions(qtree, [pointer], config, [near, far]);
+    const ratio = 1 - 10 / 50;
+    expect(near.radius).toBeCloseTo(2 + (20 - 2) * ratio);
+    expect(near.opacity).toBeCloseTo(0.5 + (1 - 0.5) * ratio);
+    expect(far.radius).toBe(2);
+
+    applyInteractions(qtree, [], config, [near, far]);
+    expect(near.radius).toBe(2);
+    expect(near.opacity).toBe(0.5);
+  });
+
+  it("eases bubble size towards the target and back over the duration", () => {
+    const config = makeConfig("bubble", 0.4);
+    const { near, far, qtree } = setup(config);
+    const target = 2 + (20 - 2) * (1 - 10 / 50);
+
+    applyInteractions(qtree, [pointer], config, [near, far], 1);
+    expect(near.radius).toBeGreaterThan(2);
+    expect(near.radius).toBeLessThan(target);
+
+    // After the duration, 95% of the way is covered
+    applyInteractions(qtree, [pointer], config, [near, far], 24 - 1);
+    expect(near.radius).toBeCloseTo(2 + (target - 2) * 0.95);
+
+    applyInteractions(qtree, [], config, [near, far], 1000);
+    expect(near.radius).toBeCloseTo(2);
+  });
+
+  it("pushes nearby particles away from the pointer in repulse mode", () => {
+    const config = makeConfig("repulse");
+    const { near, far, qtree } = setup(config);
+
+    applyInteractions(qtree, [pointer], config, [near, far]);
+    expect(near.impulseX).toBeGreaterThan(0);
+    expect(near.impulseY).toBeCloseTo(0);
+    expect(far.impulseX).toBe(0);
+
+    near.vx = near.vy = 0;
+    near.update(1);
+    expect(near.x).toBeGreaterThan(110);
+    expect(near.y).toBeCloseTo(100);
+  });
+
+  it("decays the repulse impulse over the duration", () => {
+    const config = makeConfig("repulse", 0.4);
+    const { near, qtree } = setup(config);
+
+    applyInteractions(qtree, [pointer], config, [near]);
+    const impulse = near.impulseX;
+    near.update(24); // 0.4 seconds at 60fps
+    expect(near.impulseX).toBeCloseTo(impulse * 0.05);
+  });
+
+  it("lets every pointer interact independently", () => {
+    const config = makeConfig("grab");
+    const { near, far, qtree } = setup(config);
+    const lines = applyInteractions(
+      qtree,
+      [pointer, { x: 180, y: 180, active: true }],
+      config,
+      [],
+    );
+
+    expect(lines.grab.map((l) => l.particle)).toEqual([near, far]);
+  });
+
+  it("pulls nearby particles towards the pointer in attract mode", () => {
+    const config = makeConfig("attract");
+    const { near, far, qtree } = setup(config);
+
+    applyInteractions(qtree, [pointer], config, [near, far]);
+    expect(near.impulseX).toBeLessThan(0);
+    expect(far.impulseX).toBe(0);
+  });
+
+  it("slows nearby particles down for the next update in slow mode", () => {
+    const config = makeConfig("slow");
+    const { near, far, qtree } = setup(config);
+
+    applyInteractions(qtree, [pointer], config, [near, far]);
+    expect(near.speedFactor).toBeCloseTo(1 - 0.8 * (1 - 10 / 50));
+    expect(far.speedFactor).toBe(1);
+
+    near.update(1);
+    expect(near.speedFactor).toBe(1);
+  });
+
+  it("connects particles near the pointer in connect mode", () => {
+    const config = makeConfig("connect");
+    const { near, qtree } = setup(config);
+    const other = new Particle(viewport, config, { x: 90, y: 100 });
+    qtree.insert(other);
+
+    const { connect } = applyInteractions(qtree, [pointer], config, []);
+    expect(connect).toHaveLength(1);
+    expect([connect[0].from, connect[0].to]).toEqual([near, other]);
+    expect(connect[0].opacity).toBeCloseTo((1 - 20 / 100) * 0.5);
+  });
+
+  it("applies several modes at once", () => {
+    const config = makeConfig(["grab", "repulse", "light"]);
+    const { near, qtree } = setup(config);
+
+    const output = applyInteractions(qtree, [pointer], config, [near]);
+    expect(output.grab).toHaveLength(1);
+    expect(output.light).toEqual([pointer]);
+    expect(near.impulseX).toBeGreaterThan(0);
+  });
+});
@@ -1,52 +1,232 @@
 import { Particle } from "../classes/Particle";
+import { IParticleParams, TClickMode, THoverMode, TPointer } from "../types";
 import { QuadTree, Boundary } from "./QuadTree";
 
 /**
- * Applies mouse hover interactions using spatial partitioning for performance.
+ * A line from a particle to a pointer, produced by the grab mode for the renderer to draw.
+ */
+export type TGrabLine = {
+  particle: Particle;
+  pointer: TPointer;
+  opacity: number;
+};
+
+/**
+ * A line between two particles near a pointer, produced by the connect mode for the renderer to draw.
+ */
+export type TConnectLine = {
+  from: Particle;
+  to: Particle;
+  opacity: number;
+};
+
+/**
+ * The configuration of all interaction modes.
+ */
+type TModes = NonNullable<IParticleParams["interactivity"]>["modes"];
+
+/**
+ * Everything the hover interactions produce for the renderer to draw this frame.
+ */
+export type TInteractionOutput = {
+  grab: TGrabLine[];
+  connect: TConnectLine[];
+  light: TPointer[]; // Pointers casting a spotlight
+};
+
+/**
+ * Speed of a repulse impulse right at the pointer, in pixels per 60fps frame.
+ */
+const REPULSE_SPEED = 10;
+
+/**
+ * Speed of a click shockwave right at the click position, in pixels per 60fps frame.
+ */
+const SHOCKWAVE_SPEED = 20;
+
+/**
+ * Speed of an attract impulse at the edge of its distance, in pixels per 60fps frame.
+ * It gets slower closer to the pointer, so particles settle instead of shooting through it.
+ */
+const ATTRACT_SPEED = 5;
+
+/**
+ * Fraction of a transition that is left after its duration.
+ * Transitions ease out exponentially, so they never fully finish on their own.
+ */
+const SETTLED = 0.05;
+
+/**
+ * Normalizes the configured hover mode(s) to a list.
+ * @param mode A single hover mode or several of them.
+ * @returns The list of hover modes.
+ */
+export const toModeList = <T extends string>(mode: T | T[]): T[] =>
+  Array.isArray(mode) ? mode : [mode];
+
+/**
+ * Applies pointer hover interactions using spatial partitioning for performance.
+ * Every active pointer (mouse, touch or pen) interacts with particles independently,
+ * and several hover modes can be active at once.
+ * This only changes particle state, nothing is drawn here.
  * @param qtree The QuadTree built for the current frame.
+ * @param pointers The pointers currently tracked by the engine.
+ * @param config The engine configuration.
+ * @param allParticles All particles currently in the engine.
+ * @param delta (Optional) Factor to normalize speed across different frame rates (1.0 at 60fps).
+ * @returns The lines and spotlights to draw this frame.
  */
 export const applyInteractions = (
   qtree: QuadTree,
-  mouse: { x: number; y: number; active: boolean },
-  config: any,
-  ctx: CanvasRenderingContext2D,
-  allParticles: Particle[] // Needed for the "Bubble" reset logic
-) => {
+  pointers: TPointer[],
+  config: Required<IParticleParams>,
+  allParticles: Particle[], // Needed for the "Bubble" transitions
+  delta: number = 1
+): TInteractionOutput => {
   const { onhover } = config.interactivity.events;
-  const mode = onhover.mode;
+  const modeList: THoverMode[] = toModeList(onhover.mode);
   const modes = config.interactivity.modes;
 
-  // The "Bubble" mode requires resetting all particles first
-  if (mode === "bubble") {
+  // Bubble targets of the particles near a pointer, the rest transition back to their base values
+  const bubbles = new Map<Particle, { radius: number; opacity: number }>();
+
+  const output: TInteractionOutput = { grab: [], connect: [], light: [] };
+  if (onhover.enable) {
+    for (const pointer of pointers) {
+      if (!pointer.active) continue; // Skip inactive pointers
+      applyPointerInteraction(qtree, pointer, modeList, modes, output, bubbles);
+    }
+  }
+
+  // The "Bubble" modes ease every particle towards its target, including back to its base
+  const { onclick } = config.interactivity.events;
+  const clickModes: TClickMode[] = toModeList(onclick.mode);
+  if (modeList.includes("bubble") || clickModes.includes("bubble")) {
+    const ease = getEasing(modes.bubble.duration, delta);
     for (const p of allParticles) {
-      p.radius = p.initialRadius;
-      p.opacity = p.initialOpacity;
+      const target = bubbles.get(p);
+      p.bubbleRadius += ((target?.radius ?? 0) - p.bubbleRadius) * ease;
+      p.bubbleOpacity += ((target?.opacity ?? 0) - p.bubbleOpacity) * ease;
+      p.radius = p.initialRadius + p.growthRadius + p.bubbleRadius;
+      p.opacity = p.initialOpacity + p.bubbleOpacity;
+    }
+  }
+
+  return output;
+};
+
+/**
+ * Applies the click modes that only change particle state: a repulse shockwave and a bubble pulse.
+ * Both use the distance and duration of their hover counterparts.
+ * @param qtree A QuadTree of the current particles.
+ * @param x The x position of the click.
+ * @param y The y position of the click.
+ * @param modeList The active click modes.
+ * @param modes The configuration of all interaction modes.
+ */
+export const applyClick = (
+  qtree: QuadTree,
+  x: number,
+  y: number,
+  modeList: TClickMode[],
+  modes: TModes
+) => {
+  const repulse = modeList.includes("repulse") ? modes.repulse.distance : 0;
+  const bubble = modeList.includes("bubble") ? modes.bubble.distance : 0;
+  const queryDist = Math.max(repulse, bubble);
+  if (!(queryDist > 0)) return;
+
+  const neighbors = qtree.query(
+    new Boundary(x - queryDist, y - queryDist, queryDist * 2, queryDist * 2)
+  );
+  for (const p of neighbors) {
+    const dx = p.x - x;
+    const dy = p.y - y;
+    const dist = Math.sqrt(dx * dx + dy * dy);
+
+    // Push particles away in a shockwave that decays over the repulse duration
+    if (dist < repulse && dist > 0) {
+      const force = (repulse - dist) / repulse;
+      p.applyImpulse(
+        (dx / dist) * force * SHOCKWAVE_SPEED,
+        (dy / dist) * force * SHOCKWAVE_SPEED,
+        modes.repulse.duration
+      );
+    }
+
+    // Grow particles at once, they ease back over the bubble duration
+    if (dist < bubble) {
+      const ratio = 1 - dist / bubble;
+      const radius = (modes.bubble.size - p.initialRadius) * ratio;
+      if (Math.abs(radius) > Math.abs(p.bubbleRadius)) p.bubbleRadius = radius;
+      if (modes.bubble.opacity) {
+        const opacity = (modes.bubble.opacity - p.initialOpacity) * ratio;
+        if (Math.abs(opacity) > Math.abs(p.bubbleOpacity))
+          p.bubbleOpacity = opacity;
+      }
+      p.radius = p.initialRadius + p.growthRadius + p.bubbleRadius;
+      p.opacity = p.initialOpacity + p.bubbleOpacity;
     }
   }
+};
 
-  // No interaction if mouse is inactive or hover is disabled
-  if (!mouse.active || !onhover.enable) return;
+/**
+ * Returns the fraction of the remaining distance a transition covers this frame.
+ * @param duration The duration of the transition in seconds, 0 for instant.
+ * @param delta Factor to normalize speed across different frame rates (1.0 at 60fps).
+ * @returns A value between 0 and 1.
+ */
+const getEasing = (duration: number, delta: number): number => {
+  if (!(duration > 0)) return 1;
+  const elapsed = delta * (1000 / 60);
+  return 1 - Math.pow(SETTLED, elapsed / (duration * 1000));
+};
 
-  // Extract mouse position and mode distances
-  const { x: mx, y: my } = mouse;
-  const grabDist = modes.grab.distance;
-  const bubbleDist = modes.bubble.distance;
-  const repulseDist = modes.repulse.distance;
+/**
+ * Applies the hover interactions of a single pointer to the particles around it.
+ * @param qtree The QuadTree built for the current frame.
+ * @param pointer The pointer to apply the interactions for.
+ * @param modeList The active hover modes.
+ * @param modes The configuration of all interaction modes.
+ * @param output The lines and spotlights to add to.
+ * @param bubbles The bubble targets to add to, by particle.
+ */
+const applyPointerInteraction = (
+  qtree: QuadTree,
+  pointer: TPointer,
+  modeList: THoverMode[],
+  modes: TModes,
+  output: TInteractionOutput,
+  bubbles: Map<Particle, { radius: number; opacity: number }>
+) => {
+  // Extract pointer position and the distance of every active mode
+  // Modes without a configuration (e.g. from an older full config) are skipped,
+  // so the optional modes below are only used once they have a distance
+  const { x: mx, y: my } = pointer;
+  const distances: Record<string, number> = {};
+  for (const mode of modeList) {
+    const distance =
+      mode === "connect" ? modes.connect?.radius : modes[mode]?.distance;
+    if (distance && distance > 0) distances[mode] = distance;
+  }
+  const { grab, bubble, repulse, attract, connect, slow } = distances;
+
+  // The spotlight only needs the pointer's position
+  if (distances.light) output.light.push(pointer);
 
-  // Determine the search area based on the active mode's distance
-  let queryDist = 0;
-  if (mode === "grab") queryDist = grabDist;
-  else if (mode === "bubble") queryDist = bubbleDist;
-  else if (mode === "repulse") queryDist = repulseDist;
+  // Determine the search area based on the largest distance of the active modes
+  const queryDist = Math.max(0, ...Object.values(distances));
+  if (queryDist === 0) return;
 
-  // Query only the particles within the mouse's area of influence
+  // Query only the particles within the pointer's area of influence
   const searchArea = new Boundary(
     mx - queryDist,
     my - queryDist,
     queryDist * 2,
     queryDist * 2
   );
-  const neighbors = qtree.query(searchArea); // Particles near the mouse
+  const neighbors = qtree.query(searchArea); // Particles near the pointer
+  const connected: Particle[] = []; // Particles within the connect radius
 
   // Apply the interaction effects based on mode
   // This for loop processes only nearby particles for efficiency
@@ -55,42 +235,80 @@ export const applyInteractions = (
     const dx = p.x - mx;
     const dy = p.y - my;
     const distSq = dx * dx + dy * dy;
-    const limitSq = queryDist * queryDist;
 
     // Only process if within the circular radius (QuadTree uses a square box)
-    if (distSq < limitSq) {
-      const dist = Math.sqrt(distSq);
-
-      // If the mode is grab, draw a line between particle and mouse
-      if (mode === "grab") {
-        const opacity = 1 - dist / grabDist;
-        ctx.strokeStyle = `rgba(255,255,255,${opacity * 0.5})`;
-        ctx.lineWidth = 1;
-        ctx.beginPath();
-        ctx.moveTo(p.x, p.y);
-        ctx.lineTo(mx, my);
-        ctx.stroke();
-      }
+    if (distSq >= queryDist * queryDist) continue;
+    const dist = Math.sqrt(distSq);
+
+    // If the mode is grab, add a line between particle and pointer
+    if (dist < grab) {
+      const opacity = 1 - dist / grab;
+      output.grab.push({ particle: p, pointer, opacity });
+    }
 
-      // If the mode is bubble, increase size and opacity
-      if (mode === "bubble") {
-        const ratio = 1 - dist / bubbleDist;
-        p.radius =
-          p.initialRadius + (modes.bubble.size - p.initialRadius) * ratio;
-        if (modes.bubble.opacity) {
-          p.opacity =
-            p.initialOpacity +
-            (modes.bubble.opacity - p.initialOpacity) * ratio;
-        }
+    // If the mode is bubble, set the target size and opacity, relative to the base values
+    // With several pointers nearby, the strongest effect wins
+    if (dist < bubble) {
+      const ratio = 1 - dist / bubble;
+      const target = bubbles.get(p) ?? { radius: 0, opacity: 0 };
+      const radius = (modes.bubble.size - p.initialRadius) * ratio;
+      if (Math.abs(radius) > Math.abs(target.radius)) target.radius = radius;
+      if (modes.bubble.opacity) {
+        const opacity = (modes.bubble.opacity - p.initialOpacity) * ratio;
+        if (Math.abs(opacity) > Math.abs(target.opacity))
+          target.opacity = opacity;
       }
+      bubbles.set(p, target);
+    }
+
+    // If the mode is repulse, push particles away from pointer
+    // The impulse decays over the duration, so particles glide out instead of jumping
+    if (dist < repulse) {
+      const force = (repulse - dist) / repulse;
+      const angle = Math.atan2(dy, dx);
+      p.applyImpulse(
+        Math.cos(angle) * force * REPULSE_SPEED,
+        Math.sin(angle) * force * REPULSE_SPEED,
+        modes.repulse.duration
+      );
+    }
+
+    // If the mode is attract, pull particles towards the pointer, slower the closer they are
+    if (dist < attract && dist > 0) {
+      const speed = (dist / attract) * ATTRACT_SPEED;
+      p.applyImpulse(
+        (-dx / dist) * speed,
+        (-dy / dist) * speed,
+        modes.attract!.duration
+      );
+    }
+
+    // If the mode is slow, slow particles down, the most right at the pointer
+    // With several pointers nearby, the strongest effect wins
+    if (dist < slow) {
+      const ratio = 1 - dist / slow;
+      const factor = 1 - (1 - modes.slow!.factor) * ratio;
+      if (factor < p.speedFactor) p.speedFactor = factor;
+    }
+
+    if (dist < connect) connected.push(p);
+  }
+
+  // If the mode is connect, link the particles near the pointer that are close to each other
+  if (connected.length > 1) {
+    const linkDist = modes.connect!.distance;
+    for (let i = 0; i < connected.length; i++) {
+      for (let j = i + 1; j < connected.length; j++) {
+        const a = connected[i];
+        const b = connected[j];
+        const dx = a.x - b.x;
+        const dy = a.y - b.y;
+        const distSq = dx * dx + dy * dy;
+        if (distSq >= linkDist * linkDist) continue;
 
-      // If the mode is repulse, push particles away from mouse
-      if (mode === "repulse") {
-        const force = (repulseDist - dist) / repulseDist;
-        const angle = Math.atan2(dy, dx);
-        // Note: Movement is applied directly to position for immediate response
-        p.x += Math.cos(angle) * force * 10;
-        p.y += Math.sin(angle) * force * 10;
+        const fade = 1 - Math.sqrt(distSq) / linkDist;
+        const opacity = fade * modes.connect!.opacity;
+        output.connect.push({ from: a, to: b, opacity });
       }
     }
   }
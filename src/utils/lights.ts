@@ -0,0 +1,71 @@
+import { IParticleParams, TPointer } from "../types";
+
+/**
+ * Fills a radial gradient around every light.
+ * @param ctx The context to draw on.
+ * @param lights The pointers casting a spotlight.
+ * @param radius The radius of the spotlight.
+ * @param inner The color at the center of the spotlight.
+ * @param outer The color at the edge of the spotlight.
+ */
+const fillSpots = (
+  ctx: CanvasRenderingContext2D,
+  lights: TPointer[],
+  radius: number,
+  inner: string,
+  outer: string,
+) => {
+  for (const { x, y } of lights) {
+    const gradient = ctx.createRadialGradient(x, y, 0, x, y, radius);
+    gradient.addColorStop(0, inner);
+    gradient.addColorStop(1, outer);
+    ctx.fillStyle = gradient;
+    ctx.fillRect(x - radius, y - radius, radius * 2, radius * 2);
+  }
+};
+
+/**
+ * Reveals the drawn particles only around the lights, like a spotlight in the dark.
+ * Particles outside of every light are dimmed to the configured ambient visibility,
+ * and a soft glow in the light's color is drawn on top.
+ * @param lights The pointers casting a spotlight.
+ * @param config The engine configuration.
+ * @param ctx The 2D rendering context of the canvas, with the particles already drawn.
+ * @param mask An offscreen canvas to build the mask on, resized to match the canvas.
+ */
+export const drawLights = (
+  lights: TPointer[],
+  config: Required<IParticleParams>,
+  ctx: CanvasRenderingContext2D,
+  mask: HTMLCanvasElement,
+) => {
+  const light = config.interactivity.modes.light;
+  if (!light || !lights.length) return;
+
+  // Build the mask with the same size and transform as the canvas
+  const { canvas } = ctx;
+  if (mask.width !== canvas.width) mask.width = canvas.width;
+  if (mask.height !== canvas.height) mask.height = canvas.height;
+  const mctx = mask.getContext("2d")!;
+  mctx.setTransform(1, 0, 0, 1, 0, 0);
+  mctx.clearRect(0, 0, mask.width, mask.height);
+  mctx.fillStyle = `rgba(0,0,0,${light.ambient})`;
+  mctx.fillRect(0, 0, mask.width, mask.height);
+  mctx.setTransform(ctx.getTransform());
+  fillSpots(mctx, lights, light.distance, "rgba(0,0,0,1)", "rgba(0,0,0,0)");
+
+  // Keep the particles only where the mask is opaque
+  ctx.save();
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.globalCompositeOperation = "destination-in";
+  ctx.drawImage(mask, 0, 0);
+  ctx.restore();
+
+  // Soft glow of the light itself
+  if (light.opacity > 0) {
+    ctx.save();
+    ctx.globalAlpha = light.opacity;
+    fillSpots(ctx, lights, light.distance, light.color, "rgba(0,0,0,0)");
+    ctx.restore();
+  }
+};
@@ -0,0 +1,200 @@
+import { describe, expect, it } from "vitest";
+import { Particle } from "../classes/Particle";
+import { IParticleParams } from "../types";
+import { DEFAULTS } from "../lib/defaults";
+import { deepMerge } from "./config";
+import { TGrabLine } from "./interaction";
+import { drawGrabLines, drawLinks } from "./links";
+import { Boundary, QuadTree } from "./QuadTree";
+
+type TStroke = {
+  style: unknown;
+  width: number;
+  dash: number[];
+  alpha: number;
+  path: number[][];
+};
+
+/**
+ * A context that records the settings every line is stroked with.
+ */
+const createContext = () => {
+  const strokes: TStroke[] = [];
+  let path: number[][] = [];
+  let dash: number[] = [];
+  const ctx = {
+    strokeStyle: "" as unknown,
+    lineWidth: 1,
+    globalAlpha: 1,
+    save: () => {},
+    restore: () => {},
+    setLineDash: (segments: number[]) => (dash = segments),
+    beginPath: () => (path = []),
+    moveTo: (x: number, y: number) => path.push([x, y]),
+    lineTo: (x: number, y: number) => path.push([x, y]),
+    stroke: () =>
+      strokes.push({
+        style: ctx.strokeStyle,
+        width: ctx.lineWidth,
+        dash,
+        alpha: ctx.globalAlpha,
+        path,
+      }),
+    createLinearGradient: (...points: number[]) => {
+      const stops: [number, string][] = [];
+      return {
+        points,
+        stops,
+        addColorStop: (offset: number, color: string) =>
+          stops.push([offset, color]),
+      };
+    },
+  };
+  return { ctx: ctx as unknown as CanvasRenderingContext2D, strokes };
+};
+
+const viewport = { width: 200, height: 200, pixelRatio: 1 };
+const makeConfig = (
+  grab: Required<IParticleParams>["interactivity"]["modes"]["grab"],
+): Required<IParticleParams> => {
+  const config = deepMerge(DEFAULTS.default, {
+    color: { ...DEFAULTS.default.color, value: "#00ff00" },
+  });
+  config.interactivity.modes.grab = grab; // Replaced, so unset options stay unset
+  return config;
+};
+const pointer = { x: 100, y: 100, active: true };
+const grabAt = (
+  config: Required<IParticleParams>,
+  x: number,
+  y: number,
+  opacity = 1,
+  by = pointer,
+): TGrabLine => ({
+  particle: new Particle(viewport, config, { x, y }),
+  pointer: by,
+  opacity,
+});
+
+describe("drawGrabLines", () => {
+  it("draws faint white lines without styling options", () => {
+    const config = makeConfig({ distance: 50 });
+    const { ctx, strokes } = createContext();
+    drawGrabLines([grabAt(config, 110, 100, 0.8)], config, ctx);
+
+    expect(strokes).toEqual([
+      {
+        style: "#ffffff",
+        width: 1,
+        dash: [],
+        alpha: 0.8 * 0.5,
+        path: [
+          [110, 100],
+          [100, 100],
+        ],
+      },
+    ]);
+  });
+
+  it("applies the configured color, width, opacity and dash pattern", () => {
+    const config = makeConfig({
+      distance: 50,
+      color: "#123456",
+      width: 3,
+      opacity: 0.6,
+      dash: [4, 2],
+    });
+    const { ctx, strokes } = createContext();
+    drawGrabLines([grabAt(config, 110, 100, 0.5)], config, ctx);
+
+    expect(strokes).toHaveLength(1);
+    expect(strokes[0]).toMatchObject({
+      style: "#123456",
+      width: 3,
+      dash: [4, 2],
+      alpha: 0.5 * 0.6,
+    });
+  });
+
+  it("blends from the particle color to the cursor color with a gradient", () => {
+    const config = makeConfig({
+      distance: 50,
+      color: "#0000ff",
+      gradient: true,
+    });
+    const { ctx, strokes } = createContext();
+    drawGrabLines([grabAt(config, 110, 120)], config, ctx);
+
+    expect(strokes[0].style).toEqual(
+      expect.objectContaining({
+        points: [110, 120, 100, 100],
+        stops: [
+          [0, "#00ff00"],
+          [1, "#0000ff"],
+        ],
+      }),
+    );
+  });
+
+  it("links the particles grabbed by the same pointer with connect", () => {
+    const config = makeConfig({ distance: 50, opacity: 0.5, connect: true });
+    const other = { x: 20, y: 20, active: true };
+    const { ctx, strokes } = createContext();
+    drawGrabLines(
+      [
+        grabAt(config, 110, 100),
+        grabAt(config, 110, 120),
+        grabAt(config, 110, 110, 1, other), // Close, but grabbed by another pointer
+        grabAt(config, 40, 100), // Grabbed, but too far from the others
+      ],
+      config,
+      ctx,
+    );
+
+    // One line per grabbed particle, plus the link between the first two
+    expect(strokes).toHaveLength(5);
+    expect(strokes[4]).toMatchObject({
+      style: "#ffffff",
+      alpha: (1 - 20 / 50) * 0.5,
+      path: [
+        [110, 100],
+        [110, 120],
+      ],
+    });
+  });
+
+  it("doesn't link grabbed particles without connect", () => {
+    const config = makeConfig({ distance: 50 });
+    const { ctx, strokes } = createContext();
+    drawGrabLines(
+      [grabAt(config, 110, 100), grabAt(config, 110, 120)],
+      config,
+      ctx,
+    );
+    expect(strokes).toHaveLength(2);
+  });
+});
+
+describe("drawLinks", () => {
+  it("skips particles that died since the tree was built", () => {
+    const config = deepMerge(DEFAULTS.default, {
+      links: { ...DEFAULTS.default.links, enable: true, distance: 50 },
+    });
+    const particles = [
+      new Particle(viewport, config, { x: 100, y: 100 }),
+      new Particle(viewport, config, { x: 110, y: 100 }),
+      new Particle(viewport, config, { x: 100, y: 110 }),
+    ];
+    const qtree = new QuadTree(new Boundary(0, 0, 200, 200));
+    particles.forEach((p) => qtree.insert(p));
+    particles[1].dead = true;
+
+    const { ctx, strokes } = createContext();
+    drawLinks(qtree, [particles[0], particles[2]], config, ctx);
+    expect(strokes).toHaveLength(1);
+    expect(strokes[0].path).toEqual([
+      [100, 100],
+      [100, 110],
+    ]);
+  });
+});
@@ -0,0 +1,226 @@
+import { Particle } from "../classes/Particle";
+import { ILineStyle, IParticleParams } from "../types";
+import { QuadTree, Boundary } from "./QuadTree";
+import { TConnectLine, TGrabLine } from "./interaction";
+
+type TPoint = { x: number; y: number };
+
+/**
+ * Sets the color, width and dash pattern of a line style on the context.
+ * @param style The line style to apply.
+ * @param ctx The 2D rendering context of the canvas.
+ */
+const applyLineStyle = (style: ILineStyle, ctx: CanvasRenderingContext2D) => {
+  ctx.lineWidth = style.width;
+  ctx.strokeStyle = style.color;
+  ctx.setLineDash(style.dash ?? []);
+};
+
+/**
+ * Strokes a single line in the current line style.
+ * With a gradient, the line blends between the given colors instead.
+ * @param from The start of the line.
+ * @param to The end of the line.
+ * @param alpha The opacity of the line.
+ * @param style The line style, already applied to the context.
+ * @param colors The colors at the start and end of the line, used for the gradient.
+ * @param ctx The 2D rendering context of the canvas.
+ */
+const strokeLine = (
+  from: TPoint,
+  to: TPoint,
+  alpha: number,
+  style: ILineStyle,
+  colors: [string, string],
+  ctx: CanvasRenderingContext2D,
+) => {
+  if (style.gradient) {
+    const gradient = ctx.createLinearGradient(from.x, from.y, to.x, to.y);
+    gradient.addColorStop(0, colors[0]);
+    gradient.addColorStop(1, colors[1]);
+    ctx.strokeStyle = gradient;
+  }
+  ctx.globalAlpha = alpha;
+  ctx.beginPath();
+  ctx.moveTo(from.x, from.y);
+  ctx.lineTo(to.x, to.y);
+  ctx.stroke();
+};
+
+/**
+ * Returns the line style of the grab mode.
+ * Missing values fall back to the faint white lines of the original grab mode.
+ * @param grab The grab mode configuration.
+ * @returns The complete line style.
+ */
+const getGrabStyle = (
+  grab: Required<IParticleParams>["interactivity"]["modes"]["grab"],
+): ILineStyle => ({
+  color: grab.color ?? "#ffffff",
+  opacity: grab.opacity ?? 0.5,
+  width: grab.width ?? 1,
+  dash: grab.dash,
+  gradient: grab.gradient,
+});
+
+/**
+ * Draws connecting lines (and optional triangle fills) between nearby particles.
+ * Uses the per-frame QuadTree so each particle only checks its local neighbourhood.
+ * @param qtree The QuadTree built for the current frame.
+ * @param particles All particles currently in the engine.
+ * @param config The engine configuration.
+ * @param ctx The 2D rendering context of the canvas.
+ */
+export const drawLinks = (
+  qtree: QuadTree,
+  particles: Particle[],
+  config: Required<IParticleParams>,
+  ctx: CanvasRenderingContext2D,
+) => {
+  const links = config.links;
+  if (!links.enable || links.distance <= 0) return; // Nothing to draw
+
+  const { distance, color, opacity } = links;
+  const maxLinks = links.max ?? Infinity;
+  const triangles = links.triangles;
+  const limitSq = distance * distance;
+
+  // Track which particles were already processed and how many links each one has
+  // Processed particles are skipped as neighbours so every pair is only drawn once
+  const processed = new Set<Particle>();
+  const linkCount = new Map<Particle, number>();
+
+  ctx.save();
+  applyLineStyle(links, ctx);
+
+  for (const p1 of particles) {
+    processed.add(p1);
+    if (p1.dead || (linkCount.get(p1) ?? 0) >= maxLinks) continue;
+
+    // Query only the particles within the link distance
+    const range = new Boundary(
+      p1.x - distance,
+      p1.y - distance,
+      distance * 2,
+      distance * 2,
+    );
+    const neighbors = qtree.query(range);
+    const linked: Particle[] = []; // Neighbours p1 was linked to in this pass
+
+    for (const p2 of neighbors) {
+      // The tree is built before the step, so it still holds the particles culled since
+      if (p2.dead || processed.has(p2)) continue;
+      if ((linkCount.get(p1) ?? 0) >= maxLinks) break;
+      if ((linkCount.get(p2) ?? 0) >= maxLinks) continue;
+
+      const dx = p1.x - p2.x;
+      const dy = p1.y - p2.y;
+      const distSq = dx * dx + dy * dy;
+
+      // Only link if within the circular radius (QuadTree uses a square box)
+      if (distSq >= limitSq) continue;
+
+      // Fade the line with distance, same as the grab mode does
+      const fade = 1 - Math.sqrt(distSq) / distance;
+      const colors: [string, string] = [p1.getColor(), p2.getColor()];
+      strokeLine(p1, p2, fade * opacity, links, colors, ctx);
+
+      linkCount.set(p1, (linkCount.get(p1) ?? 0) + 1);
+      linkCount.set(p2, (linkCount.get(p2) ?? 0) + 1);
+      linked.push(p2);
+    }
+
+    // Fill triangles between p1 and any two of its linked neighbours that are close to each other
+    if (triangles?.enable && linked.length > 1) {
+      ctx.fillStyle = triangles.color ?? color;
+      ctx.globalAlpha = triangles.opacity;
+      for (let i = 0; i < linked.length; i++) {
+        for (let j = i + 1; j < linked.length; j++) {
+          const p2 = linked[i];
+          const p3 = linked[j];
+          const dx = p2.x - p3.x;
+          const dy = p2.y - p3.y;
+          if (dx * dx + dy * dy >= limitSq) continue;
+
+          ctx.beginPath();
+          ctx.moveTo(p1.x, p1.y);
+          ctx.lineTo(p2.x, p2.y);
+          ctx.lineTo(p3.x, p3.y);
+          ctx.closePath();
+          ctx.fill();
+        }
+      }
+    }
+  }
+
+  ctx.restore();
+};
+
+/**
+ * Draws the lines between grabbed particles and the pointers grabbing them.
+ * With "connect", the particles grabbed by the same pointer are also linked to each other.
+ * @param lines The grab lines produced by applyInteractions.
+ * @param config The engine configuration.
+ * @param ctx The 2D rendering context of the canvas.
+ */
+export const drawGrabLines = (
+  lines: TGrabLine[],
+  config: Required<IParticleParams>,
+  ctx: CanvasRenderingContext2D,
+) => {
+  if (!lines.length) return;
+
+  const grab = config.interactivity.modes.grab;
+  const style = getGrabStyle(grab);
+
+  ctx.save();
+  applyLineStyle(style, ctx);
+  for (const { particle, pointer, opacity } of lines) {
+    const colors: [string, string] = [particle.getColor(), style.color];
+    strokeLine(particle, pointer, opacity * style.opacity, style, colors, ctx);
+  }
+
+  // Link the particles grabbed by the same pointer, fading with their distance
+  if (grab.connect) {
+    const limitSq = grab.distance * grab.distance;
+    for (let i = 0; i < lines.length; i++) {
+      for (let j = i + 1; j < lines.length; j++) {
+        if (lines[i].pointer !== lines[j].pointer) continue;
+        const a = lines[i].particle;
+        const b = lines[j].particle;
+        const dx = a.x - b.x;
+        const dy = a.y - b.y;
+        const distSq = dx * dx + dy * dy;
+        if (distSq >= limitSq) continue;
+
+        const fade = 1 - Math.sqrt(distSq) / grab.distance;
+        const colors: [string, string] = [a.getColor(), b.getColor()];
+        strokeLine(a, b, fade * style.opacity, style, colors, ctx);
+      }
+    }
+  }
+  ctx.restore();
+};
+
+/**
+ * Draws the lines between particles near a pointer, produced by the connect mode.
+ * Uses the style of the links.
+ * @param lines The connect lines produced by applyInteractions.
+ * @param config The engine configuration.
+ * @param ctx The 2D rendering context of the canvas.
+ */
+export const drawConnectLines = (
+  lines: TConnectLine[],
+  config: Required<IParticleParams>,
+  ctx: CanvasRenderingContext2D,
+) => {
+  if (!lines.length) return;
+
+  ctx.save();
+  applyLineStyle(config.links, ctx);
+  for (const { from, to, opacity } of lines) {
+    const colors: [string, string] = [from.getColor(), to.getColor()];
+    strokeLine(from, to, opacity, config.links, colors, ctx);
+  }
+  ctx.restore();
+};
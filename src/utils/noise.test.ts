@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest";
+import { createNoise3D } from "./noise";
+import { createRandom } from "./random";
+
+describe("createNoise3D", () => {
+  it("is reproducible with the same seed", () => {
+    const a = createNoise3D(createRandom(1));
+    const b = createNoise3D(createRandom(1));
+    expect(a(1.3, 2.7, 0.5)).toBe(b(1.3, 2.7, 0.5));
+  });
+
+  it("stays within range and varies smoothly", () => {
+    const noise = createNoise3D(createRandom(5));
+    for (let i = 0; i < 100; i++) {
+      const x = i * 0.37;
+      const value = noise(x, x * 0.5, 0.2);
+      expect(Math.abs(value)).toBeLessThanOrEqual(1);
+      expect(Math.abs(noise(x + 0.001, x * 0.5, 0.2) - value)).toBeLessThan(
+        0.01,
+      );
+    }
+  });
+
+  it("is zero on the lattice points", () => {
+    const noise = createNoise3D(createRandom(5));
+    expect(noise(3, 4, 5)).toBe(0);
+  });
+});
@@ -0,0 +1,91 @@
+import { TRandom } from "./random";
+
+/**
+ * A 3D noise function returning smoothly varying values in about [-1, 1].
+ */
+export type TNoise3D = (x: number, y: number, z: number) => number;
+
+// Gradient directions towards the edges of a cube, as in Ken Perlin's improved noise
+// prettier-ignore
+const GRADIENTS = [
+  [1, 1, 0], [-1, 1, 0], [1, -1, 0], [-1, -1, 0],
+  [1, 0, 1], [-1, 0, 1], [1, 0, -1], [-1, 0, -1],
+  [0, 1, 1], [0, -1, 1], [0, 1, -1], [0, -1, -1],
+];
+
+/**
+ * Quintic smoothstep, so the noise has no visible seams at the lattice edges.
+ */
+const fade = (t: number) => t * t * t * (t * (t * 6 - 15) + 10);
+
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+/**
+ * Creates a 3D Perlin noise function.
+ * The permutation table is shuffled with the given generator, so a seeded generator gives a reproducible field.
+ * @param random The random number generator to shuffle the permutation table with.
+ * @returns The noise function.
+ */
+export const createNoise3D = (random: TRandom): TNoise3D => {
+  // Shuffle 0-255 and repeat it, so lookups never need to wrap
+  const p = Array.from({ length: 256 }, (_, i) => i);
+  for (let i = 255; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [p[i], p[j]] = [p[j], p[i]];
+  }
+  const perm = new Uint8Array(512);
+  for (let i = 0; i < 512; i++) perm[i] = p[i & 255];
+
+  // Dot product of the corner's gradient with the offset to the point
+  const grad = (hash: number, x: number, y: number, z: number) => {
+    const g = GRADIENTS[hash % 12];
+    return g[0] * x + g[1] * y + g[2] * z;
+  };
+
+  return (x, y, z) => {
+    // Lattice cell and position within it
+    const fx = Math.floor(x);
+    const fy = Math.floor(y);
+    const fz = Math.floor(z);
+    const X = fx & 255;
+    const Y = fy & 255;
+    const Z = fz & 255;
+    x -= fx;
+    y -= fy;
+    z -= fz;
+    const u = fade(x);
+    const v = fade(y);
+    const w = fade(z);
+
+    // Hash the 8 cube corners
+    const A = perm[X] + Y;
+    const AA = perm[A] + Z;
+    const AB = perm[A + 1] + Z;
+    const B = perm[X + 1] + Y;
+    const BA = perm[B] + Z;
+    const BB = perm[B + 1] + Z;
+
+    // Blend the contributions of the corners
+    return lerp(
+      lerp(
+        lerp(grad(perm[AA], x, y, z), grad(perm[BA], x - 1, y, z), u),
+        lerp(grad(perm[AB], x, y - 1, z), grad(perm[BB], x - 1, y - 1, z), u),
+        v,
+      ),
+      lerp(
+        lerp(
+          grad(perm[AA + 1], x, y, z - 1),
+          grad(perm[BA + 1], x - 1, y, z - 1),
+          u,
+        ),
+        lerp(
+          grad(perm[AB + 1], x, y - 1, z - 1),
+          grad(perm[BB + 1], x - 1, y - 1, z - 1),
+          u,
+        ),
+        v,
+      ),
+      w,
+    );
+  };
+};
@@ -0,0 +1,23 @@
+import { describe, expect, it } from "vitest";
+import { parseSvg } from "./paths";
+
+describe("parseSvg", () => {
+  it("extracts every path and the viewBox", () => {
+    const { d, viewBox } = parseSvg(
+      `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 32 16">
+        <path fill="red" d="M0 0L10 10Z"/>
+        <path d='M5 5h2v2z' />
+      </svg>`,
+    );
+    expect(d).toEqual(["M0 0L10 10Z", "M5 5h2v2z"]);
+    expect(viewBox).toEqual([0, 0, 32, 16]);
+  });
+
+  it("ignores other elements and a missing viewBox", () => {
+    const { d, viewBox } = parseSvg(
+      `<svg><circle r="4"/><path d="M1 1"/></svg>`,
+    );
+    expect(d).toEqual(["M1 1"]);
+    expect(viewBox).toBeUndefined();
+  });
+});
@@ -0,0 +1,71 @@
+import { IParticleParams } from "../types";
+
+type TPathParams = NonNullable<Required<IParticleParams>["shape"]["path"]>;
+
+/**
+ * A parsed path shape, ready to draw.
+ */
+export type TParsedPath = {
+  path: Path2D;
+  viewBox: [number, number, number, number]; // minX, minY, width, height
+};
+
+// Icons are most commonly drawn on a 24x24 grid
+const DEFAULT_VIEWBOX: [number, number, number, number] = [0, 0, 24, 24];
+
+// Parsed paths shared by all particles, keyed by their source
+const pathCache = new Map<string, TParsedPath | null>();
+
+/**
+ * Extracts the path data and viewBox from inline SVG markup.
+ * Only `<path>` elements are used, other elements are ignored.
+ * This is a plain string parser, so it also works without a DOM.
+ * @param markup The SVG markup to parse.
+ * @returns The path data of every path and the viewBox, if the markup has one.
+ */
+export const parseSvg = (
+  markup: string,
+): { d: string[]; viewBox?: [number, number, number, number] } => {
+  const d: string[] = [];
+  const pathRegex = /<path\b[^>]*?\sd\s*=\s*(["'])([\s\S]*?)\1/gi;
+  let match: RegExpExecArray | null;
+  while ((match = pathRegex.exec(markup))) d.push(match[2]);
+
+  const viewBoxMatch = markup.match(/viewBox\s*=\s*(["'])([^"']+)\1/i);
+  const values = viewBoxMatch?.[2].split(/[\s,]+/).map(parseFloat);
+  const viewBox =
+    values?.length === 4 && !values.some(isNaN)
+      ? (values as [number, number, number, number])
+      : undefined;
+
+  return { d, viewBox };
+};
+
+/**
+ * Returns the parsed path for the path shape configuration, parsing and caching it on first use.
+ * @param config The path shape configuration.
+ * @returns The parsed path, or null if there is nothing to draw.
+ */
+export const getPath = (config: TPathParams): TParsedPath | null => {
+  const key = config.svg ?? config.data ?? "";
+  const cacheKey = `${key}|${config.viewBox ?? ""}`;
+  if (pathCache.has(cacheKey)) return pathCache.get(cacheKey)!;
+
+  let d: string[] = config.data ? [config.data] : [];
+  let viewBox = config.viewBox;
+  if (config.svg) {
+    const parsed = parseSvg(config.svg);
+    d = parsed.d;
+    viewBox ??= parsed.viewBox;
+  }
+
+  let result: TParsedPath | null = null;
+  if (d.length) {
+    const path = new Path2D();
+    for (const data of d) path.addPath(new Path2D(data));
+    result = { path, viewBox: viewBox ?? DEFAULT_VIEWBOX };
+  }
+
+  pathCache.set(cacheKey, result);
+  return result;
+};
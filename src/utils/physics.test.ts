@@ -0,0 +1,221 @@
+import { describe, expect, it } from "vitest";
+import { Particle } from "../classes/Particle";
+import { IParticleParams } from "../types";
+import { DEFAULTS } from "../lib/defaults";
+import { deepMerge } from "./config";
+import {
+  applyAttraction,
+  applyCollisions,
+  applyForces,
+  handleOutMode,
+} from "./physics";
+import { QuadTree, Boundary } from "./QuadTree";
+
+const viewport = { width: 100, height: 100, pixelRatio: 1 };
+const makeConfig = (params: IParticleParams): Required<IParticleParams> =>
+  deepMerge(DEFAULTS.default, params);
+const makeParticle = (
+  config: Required<IParticleParams>,
+  x: number,
+  y: number,
+  vx = 0,
+  vy = 0,
+) => {
+  const p = new Particle(viewport, config, { x, y });
+  p.radius = 5;
+  p.vx = vx;
+  p.vy = vy;
+  return p;
+};
+const buildTree = (particles: Particle[]) => {
+  const qtree = new QuadTree(new Boundary(0, 0, 100, 100));
+  particles.forEach((p) => qtree.insert(p));
+  return qtree;
+};
+
+describe("handleOutMode", () => {
+  describe("out", () => {
+    const config = makeConfig({
+      move: { ...DEFAULTS.default.move, out_mode: "out" },
+    });
+
+    it("wraps a particle that fully left the right edge to the left", () => {
+      const p = makeParticle(config, 106, 50, 1, 0);
+      handleOutMode(p, viewport);
+      expect(p.x).toBe(106 - 110);
+      expect(p.y).toBe(50);
+    });
+
+    it("wraps a particle that fully left the top edge to the bottom", () => {
+      const p = makeParticle(config, 50, -6, 0, -1);
+      handleOutMode(p, viewport);
+      expect(p.y).toBe(-6 + 110);
+    });
+
+    it("leaves a particle that is still partially visible alone", () => {
+      const p = makeParticle(config, 104, 50, 1, 0);
+      handleOutMode(p, viewport);
+      expect(p.x).toBe(104);
+    });
+  });
+
+  describe("bounce", () => {
+    const config = makeConfig({
+      move: { ...DEFAULTS.default.move, out_mode: "bounce" },
+    });
+
+    it("reverses velocity and corrects overlap at the left edge", () => {
+      const p = makeParticle(config, 3, 50, -2, 0);
+      handleOutMode(p, viewport);
+      expect(p.vx).toBe(2);
+      expect(p.x).toBe(7);
+    });
+
+    it("reverses velocity and corrects overlap at the bottom edge", () => {
+      const p = makeParticle(config, 50, 97, 0, 2);
+      handleOutMode(p, viewport);
+      expect(p.vy).toBe(-2);
+      expect(p.y).toBe(93);
+    });
+
+    it("doesn't bounce particles already moving away from the edge", () => {
+      const p = makeParticle(config, 3, 50, 2, 0);
+      handleOutMode(p, viewport);
+      expect(p.vx).toBe(2);
+      expect(p.x).toBe(3);
+    });
+  });
+});
+
+describe("applyAttraction", () => {
+  it("does nothing when attraction is disabled", () => {
+    const config = makeConfig({});
+    const a = makeParticle(config, 20, 50);
+    const b = makeParticle(config, 80, 50);
+    applyAttraction([a, b], config, buildTree([a, b]));
+    expect(a.vx).toBe(0);
+    expect(b.vx).toBe(0);
+  });
+
+  it("pulls nearby particles towards each other", () => {
+    const config = makeConfig({
+      move: {
+        ...DEFAULTS.default.move,
+        attract: { enable: true, rotateX: 1, rotateY: 1 },
+      },
+    });
+    const a = makeParticle(config, 20, 40);
+    const b = makeParticle(config, 80, 60);
+    applyAttraction([a, b], config, buildTree([a, b]));
+
+    expect(a.vx).toBeCloseTo(60 / 1000);
+    expect(a.vy).toBeCloseTo(20 / 1000);
+    expect(b.vx).toBeCloseTo(-60 / 1000);
+    expect(b.vy).toBeCloseTo(-20 / 1000);
+  });
+});
+
+describe("applyCollisions", () => {
+  const withCollisions = (
+    mode: "bounce" | "absorb" | "destroy",
+    params: IParticleParams = {},
+  ) => makeConfig({ ...params, collisions: { enable: true, mode } });
+
+  it("separates touching particles and exchanges their momentum", () => {
+    const config = withCollisions("bounce");
+    const a = makeParticle(config, 40, 50, 1, 0);
+    const b = makeParticle(config, 48, 50, -1, 0);
+    applyCollisions([a, b], config, buildTree([a, b]));
+
+    // Same size, so both move out of the overlap equally and swap velocities
+    expect(a.x).toBeCloseTo(39);
+    expect(b.x).toBeCloseTo(49);
+    expect(a.vx).toBeCloseTo(-1);
+    expect(b.vx).toBeCloseTo(1);
+  });
+
+  it("leaves particles that don't touch alone", () => {
+    const config = withCollisions("bounce");
+    const a = makeParticle(config, 40, 50, 1, 0);
+    const b = makeParticle(config, 51, 50, -1, 0);
+    applyCollisions([a, b], config, buildTree([a, b]));
+    expect([a.x, a.vx, b.x, b.vx]).toEqual([40, 1, 51, -1]);
+  });
+
+  it("absorbs the smaller particle, keeping the growth through size animation", () => {
+    const config = withCollisions("absorb", {
+      size: {
+        ...DEFAULTS.default.size,
+        value: 3,
+        anim: { enable: true, speed: 4, size_min: 1, sync: false },
+      },
+      sway: { ...DEFAULTS.default.sway, enable: false },
+    });
+    const big = makeParticle(config, 50, 50, 1, 0);
+    const small = makeParticle(config, 53, 50, -1, 0);
+    big.radius = big.initialRadius = 3;
+    small.radius = small.initialRadius = 2;
+    applyCollisions([big, small], config, buildTree([big, small]));
+
+    expect(small.dead).toBe(true);
+    expect(big.radius).toBeCloseTo(Math.sqrt(13)); // Grown by the absorbed area
+    expect(big.vx).toBeCloseTo((9 - 4) / 13); // Momentum is conserved
+
+    big.update(1);
+    expect(big.initialRadius).toBeLessThanOrEqual(3);
+    expect(big.radius).toBeCloseTo(big.initialRadius + Math.sqrt(13) - 3);
+  });
+
+  it("destroys the smaller particle, or both if they are the same size", () => {
+    const config = withCollisions("destroy");
+    const a = makeParticle(config, 50, 50);
+    const b = makeParticle(config, 53, 50);
+    b.radius = 3;
+    applyCollisions([a, b], config, buildTree([a, b]));
+    expect([a.dead, b.dead]).toEqual([false, true]);
+
+    const c = makeParticle(config, 20, 20);
+    const d = makeParticle(config, 24, 20);
+    applyCollisions([c, d], config, buildTree([c, d]));
+    expect([c.dead, d.dead]).toEqual([true, true]);
+  });
+});
+
+describe("applyForces", () => {
+  const forces = DEFAULTS.default.forces;
+
+  it("accelerates along gravity up to the max speed", () => {
+    const config = makeConfig({
+      forces: {
+        ...forces,
+        gravity: { enable: true, x: 0, y: 1, maxSpeed: 2.5 },
+      },
+    });
+    const p = makeParticle(config, 50, 50);
+    applyForces(p, 1, 0);
+    expect(p.vy).toBe(1);
+    applyForces(p, 2, 0);
+    expect(p.vy).toBe(2.5);
+    expect(p.vx).toBe(0);
+  });
+
+  it("slows particles down with drag, scaled by delta", () => {
+    const config = makeConfig({ forces: { ...forces, drag: 0.5 } });
+    const p = makeParticle(config, 50, 50, 4, -4);
+    applyForces(p, 2, 0);
+    expect(p.vx).toBeCloseTo(1);
+    expect(p.vy).toBeCloseTo(-1);
+  });
+
+  it("pushes particles with the wind", () => {
+    const config = makeConfig({
+      forces: {
+        ...forces,
+        wind: { enable: true, x: 0.5, y: 0, gust: 0, frequency: 0.1 },
+      },
+    });
+    const p = makeParticle(config, 50, 50);
+    applyForces(p, 1, 1234);
+    expect(p.vx).toBe(0.5);
+  });
+});
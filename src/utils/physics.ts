@@ -1,5 +1,7 @@
 import { Particle } from "../classes/Particle";
+import { IParticleParams, TViewport } from "../types";
 import { QuadTree, Boundary } from "./QuadTree";
+import { TNoise3D } from "./noise";
 
 /**
  * Mapping of movement directions to velocity components.
@@ -20,14 +22,11 @@ export const DIRECTION_MAP: Record<string, { x: number; y: number }> = {
 /**
  * What happens when a particle goes out of bounds.
  * @param particle The particle to handle.
- * @param canvas The canvas the particle is on.
+ * @param viewport The logical size of the canvas the particle is on.
  */
-export const handleOutMode = (
-  particle: Particle,
-  canvas: HTMLCanvasElement,
-) => {
+export const handleOutMode = (particle: Particle, viewport: TViewport) => {
   const { move } = particle.getParameters(); // Get movement parameters
-  const { width, height } = canvas; // Canvas dimensions
+  const { width, height } = viewport; // Canvas dimensions in CSS pixels
   const r = particle.radius; // Particle radius
 
   // Determine the wrapping dimensions used for "out" mode
@@ -39,23 +38,31 @@ export const handleOutMode = (
     // We use overlap correction so that the particle doesn't get stuck
     // Additionally, this ensures that the particle reverses when it's edge hits the wall, not the center
 
-    if (particle.x - r <= 0 && particle.vx < 0) {
+    // Impulses (e.g. from repulse) are part of the movement, so they bounce as well
+    const vx = particle.vx + particle.impulseX;
+    const vy = particle.vy + particle.impulseY;
+
+    if (particle.x - r <= 0 && vx < 0) {
       const overlap = -(particle.x - r);
       particle.vx *= -1;
+      particle.impulseX *= -1;
       particle.x = r + overlap;
-    } else if (particle.x + r >= width && particle.vx > 0) {
+    } else if (particle.x + r >= width && vx > 0) {
       const overlap = particle.x + r - width;
       particle.vx *= -1;
+      particle.impulseX *= -1;
       particle.x = width - r - overlap;
     }
 
-    if (particle.y - r <= 0 && particle.vy < 0) {
+    if (particle.y - r <= 0 && vy < 0) {
       const overlap = -(particle.y - r);
       particle.vy *= -1;
+      particle.impulseY *= -1;
       particle.y = r + overlap;
-    } else if (particle.y + r >= height && particle.vy > 0) {
+    } else if (particle.y + r >= height && vy > 0) {
       const overlap = particle.y + r - height;
       particle.vy *= -1;
+      particle.impulseY *= -1;
       particle.y = height - r - overlap;
     }
   } else {
@@ -77,6 +84,86 @@ export const handleOutMode = (
   }
 };
 
+/**
+ * Applies the configured gravity, wind and drag to a particle's velocity.
+ * Forces are accelerations per 60fps frame, so they are scaled by delta like the movement itself.
+ * @param particle The particle to apply the forces to.
+ * @param delta Factor to normalize speed across different frame rates (1.0 at 60fps).
+ * @param time Total simulated time in milliseconds, drives the wind gusts.
+ */
+export const applyForces = (
+  particle: Particle,
+  delta: number,
+  time: number,
+) => {
+  const { gravity, wind, drag } = particle.getParameters().forces;
+
+  if (gravity.enable) {
+    particle.vx += gravity.x * delta;
+    particle.vy += gravity.y * delta;
+
+    // Cap the speed along the gravity direction, like air resistance on a falling object
+    const g = Math.sqrt(gravity.x * gravity.x + gravity.y * gravity.y);
+    if (gravity.maxSpeed > 0 && g > 0) {
+      const ux = gravity.x / g;
+      const uy = gravity.y / g;
+      const along = particle.vx * ux + particle.vy * uy;
+      if (along > gravity.maxSpeed) {
+        particle.vx -= (along - gravity.maxSpeed) * ux;
+        particle.vy -= (along - gravity.maxSpeed) * uy;
+      }
+    }
+  }
+
+  if (wind.enable) {
+    // Two out of phase waves, so the gusts don't repeat in an obvious rhythm
+    const t = (time / 1000) * wind.frequency * Math.PI * 2;
+    const variation = Math.sin(t) * 0.6 + Math.sin(t * 2.7 + 1.3) * 0.4;
+    const strength = 1 + wind.gust * variation;
+    particle.vx += wind.x * strength * delta;
+    particle.vy += wind.y * strength * delta;
+  }
+
+  if (drag > 0) {
+    // Lose a fraction of the velocity every 60fps frame
+    const factor = Math.pow(1 - Math.min(drag, 1), delta);
+    particle.vx *= factor;
+    particle.vy *= factor;
+  }
+};
+
+/**
+ * Steers particles along a noise based flow field that evolves over time.
+ * Every particle turns towards the field's direction at its position, at the configured move speed.
+ * @param particles All particles currently in the engine.
+ * @param config The engine configuration.
+ * @param noise The noise function the field is sampled from.
+ * @param delta Factor to normalize speed across different frame rates (1.0 at 60fps).
+ * @param time Total simulated time in milliseconds, evolves the field.
+ */
+export const applyFlowField = (
+  particles: Particle[],
+  config: Required<IParticleParams>,
+  noise: TNoise3D,
+  delta: number,
+  time: number,
+) => {
+  const { move } = config;
+  const flow = move.noise;
+  if (!move.enable || !flow?.enable) return; // No flow field if disabled
+
+  const z = (time / 1000) * flow.speed;
+  // Steer a fraction of the way towards the field direction every 60fps frame
+  const strength = Math.min(Math.max(flow.strength, 0), 1);
+  const steer = 1 - Math.pow(1 - strength, delta);
+
+  for (const p of particles) {
+    const angle = noise(p.x * flow.scale, p.y * flow.scale, z) * Math.PI * 2;
+    p.vx += (Math.cos(angle) * move.speed - p.vx) * steer;
+    p.vy += (Math.sin(angle) * move.speed - p.vy) * steer;
+  }
+};
+
 /**
  * Optimized Attraction using Spatial Partitioning.
  * Instead of checking every particle against every other,
@@ -119,3 +206,135 @@ export const applyAttraction = (
     }
   }
 };
+
+/**
+ * Particle-to-particle collisions using the QuadTree for broad-phase detection.
+ * - "bounce": elastic collision, with mass based on the particle's area.
+ * - "absorb": the larger particle eats the smaller one and grows.
+ * - "destroy": the smaller particle is destroyed (both, if they are the same size).
+ * @param particles All particles currently in the engine.
+ * @param config The engine configuration.
+ * @param qtree The QuadTree built for the current frame.
+ */
+export const applyCollisions = (
+  particles: Particle[],
+  config: Required<IParticleParams>,
+  qtree: QuadTree,
+) => {
+  const { collisions } = config;
+  if (!collisions.enable) return; // No collisions if disabled
+
+  // The largest radius bounds how far away a colliding neighbour can be
+  let maxRadius = 0;
+  for (const p of particles) if (p.radius > maxRadius) maxRadius = p.radius;
+
+  // Processed particles are skipped as neighbours so every pair is only resolved once
+  const processed = new Set<Particle>();
+
+  for (const p1 of particles) {
+    processed.add(p1);
+    if (p1.dead) continue;
+
+    // Define the query range around p1
+    const rangeRadius = p1.radius + maxRadius;
+    const range = new Boundary(
+      p1.x - rangeRadius,
+      p1.y - rangeRadius,
+      rangeRadius * 2,
+      rangeRadius * 2,
+    );
+    const neighbors = qtree.query(range); // Nearby particles
+
+    for (const p2 of neighbors) {
+      if (processed.has(p2) || p2.dead) continue;
+
+      const dx = p2.x - p1.x;
+      const dy = p2.y - p1.y;
+      const minDist = p1.radius + p2.radius;
+      const distSq = dx * dx + dy * dy;
+
+      // Not touching, or exactly on top of each other (no direction to resolve)
+      if (distSq >= minDist * minDist || distSq === 0) continue;
+
+      if (collisions.mode === "absorb") absorb(p1, p2);
+      else if (collisions.mode === "destroy") destroySmaller(p1, p2);
+      else bounce(p1, p2, dx, dy, Math.sqrt(distSq), minDist);
+
+      if (p1.dead) break; // p1 was absorbed or destroyed, nothing left to collide
+    }
+  }
+};
+
+/**
+ * Resolves an elastic collision between two overlapping particles.
+ * @param p1 The first particle.
+ * @param p2 The second particle.
+ * @param dx Horizontal distance from p1 to p2.
+ * @param dy Vertical distance from p1 to p2.
+ * @param dist Distance between the particle centers.
+ * @param minDist Distance at which the particles just touch.
+ */
+const bounce = (
+  p1: Particle,
+  p2: Particle,
+  dx: number,
+  dy: number,
+  dist: number,
+  minDist: number,
+) => {
+  // Collision normal and masses based on area
+  const nx = dx / dist;
+  const ny = dy / dist;
+  const m1 = p1.radius * p1.radius || 1;
+  const m2 = p2.radius * p2.radius || 1;
+  const total = m1 + m2;
+
+  // Separate the particles so they don't stick together, heavier ones move less
+  const overlap = minDist - dist;
+  p1.x -= nx * overlap * (m2 / total);
+  p1.y -= ny * overlap * (m2 / total);
+  p2.x += nx * overlap * (m1 / total);
+  p2.y += ny * overlap * (m1 / total);
+
+  // Only exchange momentum if the particles are moving towards each other
+  const approach = (p1.vx - p2.vx) * nx + (p1.vy - p2.vy) * ny;
+  if (approach <= 0) return;
+
+  const impulse = (2 * approach) / total;
+  p1.vx -= impulse * m2 * nx;
+  p1.vy -= impulse * m2 * ny;
+  p2.vx += impulse * m1 * nx;
+  p2.vy += impulse * m1 * ny;
+};
+
+/**
+ * The larger particle absorbs the smaller one, growing by its area and taking over its momentum.
+ * @param p1 The first particle.
+ * @param p2 The second particle.
+ */
+const absorb = (p1: Particle, p2: Particle) => {
+  const [big, small] = p1.radius >= p2.radius ? [p1, p2] : [p2, p1];
+  const m1 = big.radius * big.radius;
+  const m2 = small.radius * small.radius;
+  const total = m1 + m2 || 1;
+
+  // Conserve momentum
+  big.vx = (big.vx * m1 + small.vx * m2) / total;
+  big.vy = (big.vy * m1 + small.vy * m2) / total;
+
+  // Grow by the absorbed area, on top of the base size so size animation doesn't undo it
+  const radius = Math.sqrt(total);
+  big.growthRadius += radius - big.radius;
+  big.radius = radius;
+  small.dead = true;
+};
+
+/**
+ * Destroys the smaller of two colliding particles, or both if they are the same size.
+ * @param p1 The first particle.
+ * @param p2 The second particle.
+ */
+const destroySmaller = (p1: Particle, p2: Particle) => {
+  if (p1.radius <= p2.radius) p1.dead = true;
+  if (p2.radius <= p1.radius) p2.dead = true;
+};
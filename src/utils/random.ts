@@ -0,0 +1,24 @@
+/**
+ * A function returning a random number in [0, 1), like Math.random.
+ */
+export type TRandom = () => number;
+
+/**
+ * Creates a random number generator.
+ * With a seed, a deterministic PRNG (mulberry32) is returned, so the same seed
+ * always produces the same sequence. Without a seed, Math.random is used.
+ * @param seed (Optional) The seed for the deterministic generator.
+ * @returns A function returning a random number in [0, 1).
+ */
+export const createRandom = (seed?: number | null): TRandom => {
+  if (seed === undefined || seed === null) return Math.random;
+
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
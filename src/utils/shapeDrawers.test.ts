@@ -0,0 +1,138 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { IParticleParams } from "../types";
+import { DEFAULTS } from "../lib/defaults";
+import { deepMerge } from "./config";
+import {
+  getShapeDrawer,
+  getSpriteFrame,
+  registerShape,
+  ShapeDrawers,
+} from "./shapeDrawers";
+
+describe("getShapeDrawer", () => {
+  it("resolves built-in shapes", () => {
+    expect(getShapeDrawer({ type: "star" })).toBe(ShapeDrawers.star);
+  });
+
+  it("resolves registered custom shapes", () => {
+    const heart = () => {};
+    registerShape("heart", heart);
+    expect(getShapeDrawer({ type: "custom", custom: { name: "heart" } })).toBe(
+      heart,
+    );
+  });
+
+  it("falls back to a circle for unregistered custom shapes", () => {
+    expect(
+      getShapeDrawer({ type: "custom", custom: { name: "missing" } }),
+    ).toBe(ShapeDrawers.circle);
+    expect(getShapeDrawer({ type: "custom" })).toBe(ShapeDrawers.circle);
+  });
+});
+
+describe("getSpriteFrame", () => {
+  it("loops through the frames at the given fps", () => {
+    const frames = [0, 100, 200, 300, 400].map((t) =>
+      getSpriteFrame(t, 4, 10, "loop"),
+    );
+    expect(frames).toEqual([0, 1, 2, 3, 0]);
+  });
+
+  it("plays back and forth in ping-pong mode", () => {
+    const frames = [0, 1, 2, 3, 4, 5, 6].map((i) =>
+      getSpriteFrame(i * 100, 4, 10, "ping-pong"),
+    );
+    expect(frames).toEqual([0, 1, 2, 3, 2, 1, 0]);
+  });
+
+  it("stops at the last frame when played once, starting at the start frame", () => {
+    expect(getSpriteFrame(1000, 4, 10, "once")).toBe(3);
+    expect(getSpriteFrame(0, 4, 10, "loop", 2)).toBe(2);
+  });
+});
+
+describe("char drawer", () => {
+  type TCall = [string, ...unknown[]];
+  let calls: TCall[];
+
+  // Glyph sprites are rendered on canvases that record the text drawn on them
+  const createCanvas = () => {
+    const ctx = {
+      font: "",
+      fillStyle: "",
+      strokeStyle: "",
+      lineWidth: 0,
+      measureText: (text: string) => ({ width: text.length * 10 }),
+      fillText: (text: string) => calls.push(["fillText", ctx.fillStyle, text]),
+      strokeText: (text: string) =>
+        calls.push(["strokeText", ctx.strokeStyle, ctx.lineWidth, text]),
+    };
+    return { width: 0, height: 0, getContext: () => ctx };
+  };
+
+  // The particle's context, scaled by 2 like on a high-DPI screen
+  const createContext = () => ({
+    fillStyle: "#ff0000",
+    getTransform: () => ({ a: 2, b: 0 }),
+    drawImage: (...args: unknown[]) => calls.push(["drawImage", ...args]),
+  });
+
+  const draw = (shape: IParticleParams["shape"], seed = 0, radius = 5) => {
+    const p = deepMerge(DEFAULTS.default, { shape });
+    const ctx = createContext() as unknown as CanvasRenderingContext2D;
+    ShapeDrawers.char(ctx, radius, p, { seed, time: 0, custom: {} });
+  };
+
+  beforeEach(() => {
+    calls = [];
+    vi.stubGlobal("document", { createElement: createCanvas });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("picks the character by the particle's seed, in the particle color", () => {
+    draw({ type: "char", char: { value: ["x", "y"] } }, 0.75);
+    expect(calls[0]).toEqual(["fillText", "hsl(0.0, 100.0%, 50.0%)", "y"]);
+  });
+
+  it("draws the glyph sprite spanning the particle's diameter", () => {
+    draw({ type: "char", char: { value: "z" } }, 0, 6);
+
+    // The sprite is rendered at twice the base diameter, then scaled to the radius
+    const size = DEFAULTS.default.size.value * 2;
+    const factor = (6 * 2) / size / 2;
+    const sprite = Math.ceil(size * 2 * 1.2 + 4);
+    const [, , x, y, w, h] = calls[1] as number[];
+    expect([w, h]).toEqual([sprite * factor, sprite * factor]);
+    expect([x, y]).toEqual([-w / 2, -h / 2]);
+  });
+
+  it("strokes the glyph without a fill", () => {
+    draw({
+      type: "char",
+      char: { value: "s", fill: false, stroke: { width: 1, color: "#000" } },
+    });
+    expect(calls.slice(0, 1)).toEqual([
+      ["strokeText", "hsl(0.0, 0.0%, 0.0%)", 2, "s"],
+    ]);
+  });
+
+  it("falls back to the shape stroke, which can skip the fill", () => {
+    draw({
+      type: "char",
+      char: { value: "o" },
+      stroke: { width: 1, only: true },
+    });
+    // Without a stroke color, the particle color is used
+    expect(calls.slice(0, 1)).toEqual([
+      ["strokeText", "hsl(0.0, 100.0%, 50.0%)", 2, "o"],
+    ]);
+  });
+
+  it("draws nothing without characters", () => {
+    draw({ type: "char", char: { value: [] } });
+    expect(calls).toEqual([]);
+  });
+});
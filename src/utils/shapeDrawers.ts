@@ -1,60 +1,194 @@
-import { IParticleParams } from "../types";
+import { IImageParams, IParticleParams } from "../types";
+import { getGlyphSprite } from "./glyphs";
+import { getTintedImage } from "./images";
+import { getPath } from "./paths";
+
+/**
+ * Per-particle state passed to shape drawers.
+ * It lives as long as the particle, so drawers can keep their own state in `custom`.
+ */
+export type TShapeState = {
+  image?: IImageParams; // The particle's picked image (image shapes only)
+  img?: HTMLImageElement; // The particle's image element, once loading started
+  imgFailed?: boolean; // The image failed to load, so the fallback shape is drawn
+  seed: number; // Random value in [0, 1) picked once per particle, for per-particle variation
+  time: number; // Animation clock in milliseconds, advanced with the engine's delta timing
+  custom: Record<string, unknown>; // Free storage for custom drawers, reset when the shape changes
+};
 
 /**
  * Type definition for a shape drawer function.
- * This function draws a specific shape on the canvas context.
+ * This function draws a specific shape on the canvas context, centered at (0, 0)
+ * and within the given radius. Rotation and opacity are already applied to the context.
  */
-type Drawer = (
+export type TShapeDrawer = (
   ctx: CanvasRenderingContext2D,
   radius: number,
   p: Required<IParticleParams>,
-  img?: HTMLImageElement,
+  state: TShapeState,
 ) => void;
 
 // Precompute constants
 const PI2 = Math.PI * 2;
 
+/**
+ * Draws the configured fallback shape for an image that failed to load.
+ * @param ctx The canvas context to draw on
+ * @param radius The radius of the fallback shape
+ * @param p The particle parameters containing the fallback configuration
+ * @param state The particle's shape state
+ */
+const drawFallback: TShapeDrawer = (ctx, radius, p, state) => {
+  const fallback = p.shape.image?.fallback ?? "circle";
+  const drawer =
+    fallback === "image" || fallback === "sprite"
+      ? ShapeDrawers.circle
+      : ShapeDrawers[fallback];
+  (drawer || ShapeDrawers.circle)(ctx, radius, p, state);
+};
+
+/**
+ * Picks the current frame of a sprite sheet animation.
+ * @param time The animation clock in milliseconds.
+ * @param frames The number of frames.
+ * @param fps The frames per second.
+ * @param mode How the animation continues after the last frame.
+ * @param start The frame the animation starts at.
+ * @returns The index of the current frame.
+ */
+export const getSpriteFrame = (
+  time: number,
+  frames: number,
+  fps: number,
+  mode: "loop" | "ping-pong" | "once",
+  start: number = 0,
+): number => {
+  if (frames <= 1) return 0;
+  const step = Math.floor((time / 1000) * fps) + start;
+
+  if (mode === "once") return Math.min(step, frames - 1);
+  if (mode === "ping-pong") {
+    // Forward, then backward without repeating the first and last frames
+    const period = (frames - 1) * 2;
+    const k = step % period;
+    return k < frames ? k : period - k;
+  }
+  return step % frames;
+};
+
+/**
+ * Fills and/or strokes the current path (or the given one) based on the shape's stroke configuration.
+ * The fill uses the particle color already set on the context, the stroke defaults to it too.
+ * @param ctx The canvas context to draw on
+ * @param p The particle parameters containing the stroke configuration
+ * @param path (Optional) The path to paint instead of the context's current path
+ * @param lineScale (Optional) The scale applied to the context, so the stroke width stays in pixels
+ */
+const paint = (
+  ctx: CanvasRenderingContext2D,
+  p: Required<IParticleParams>,
+  path?: Path2D,
+  lineScale: number = 1,
+) => {
+  const stroke = p.shape.stroke;
+  if (!stroke?.only) {
+    if (path) ctx.fill(path);
+    else ctx.fill();
+  }
+  if (stroke && stroke.width > 0) {
+    ctx.lineWidth = stroke.width / lineScale;
+    ctx.strokeStyle = stroke.color ?? ctx.fillStyle;
+    if (path) ctx.stroke(path);
+    else ctx.stroke();
+  }
+};
+
 /**
  * Shape drawing functions for different particle shapes.
- * Each function takes a canvas context, radius, particle parameters, and an optional image.
+ * Each function takes a canvas context, radius, particle parameters, and the particle's shape state.
  */
-export const ShapeDrawers: Record<string, Drawer> = {
+export const ShapeDrawers: Record<string, TShapeDrawer> = {
   /**
    * Draws a cirlce on the given canvas
    * @param ctx The canvas context to draw on
    * @param radius The radius of the circle
+   * @param p The particle parameters containing the stroke configuration
    */
-  circle: (ctx, radius) => {
+  circle: (ctx, radius, p) => {
     ctx.beginPath();
     ctx.arc(0, 0, radius, 0, PI2);
-    ctx.fill();
+    paint(ctx, p);
   },
 
   /**
    * Draws an image on the canvas with size based on the radius
+   * The longer side spans the particle's diameter, keeping the configured or natural aspect ratio.
    * @param ctx The canvas context to draw on
    * @param radius The radius determining the size of the image
-   * @param _ Unused parameter
-   * @param img The image to draw
+   * @param p The particle parameters containing the tint and fallback configuration
+   * @param state The particle's shape state holding the image to draw
    */
-  image: (ctx, radius, _, img) => {
-    if (img?.complete) {
-      const size = radius * 2;
-      ctx.drawImage(img, -radius, -radius, size, size);
-    }
+  image: (ctx, radius, p, state) => {
+    const { img, image } = state;
+
+    // Draw the fallback shape if the image couldn't be loaded
+    if (state.imgFailed) return drawFallback(ctx, radius, p, state);
+    if (!img?.complete || !img.naturalWidth) return; // Still loading
+
+    const width = image?.width ?? img.naturalWidth;
+    const height = image?.height ?? img.naturalHeight;
+    const scale = (radius * 2) / Math.max(width, height, 1e-6);
+    const w = width * scale;
+    const h = height * scale;
+
+    // Tint with the particle color, using a cached tinted copy of the image
+    const source = p.shape.image?.tint
+      ? getTintedImage(img, String(ctx.fillStyle))
+      : img;
+    ctx.drawImage(source, -w / 2, -h / 2, w, h);
+  },
+
+  /**
+   * Draws the current frame of a sprite sheet, read row by row from the top left
+   * The frame is picked from the particle's animation clock, so it follows the engine's timing.
+   * @param ctx The canvas context to draw on
+   * @param radius The radius determining the size of the frame
+   * @param p The particle parameters containing the sprite sheet configuration
+   * @param state The particle's shape state holding the sheet and the animation clock
+   */
+  sprite: (ctx, radius, p, state) => {
+    const sheet = p.shape.sprite;
+    const { img } = state;
+    if (!sheet) return;
+    if (state.imgFailed) return drawFallback(ctx, radius, p, state);
+    if (!img?.complete || !img.naturalWidth) return; // Still loading
+
+    const { frameWidth, frameHeight, frames, fps, mode = "loop" } = sheet;
+    const start = sheet.randomStart ? Math.floor(state.seed * frames) : 0;
+    const frame = getSpriteFrame(state.time, frames, fps, mode, start);
+    const columns = Math.max(Math.floor(img.naturalWidth / frameWidth), 1);
+    const sx = (frame % columns) * frameWidth;
+    const sy = Math.floor(frame / columns) * frameHeight;
+
+    const scale = (radius * 2) / Math.max(frameWidth, frameHeight, 1e-6);
+    const w = frameWidth * scale;
+    const h = frameHeight * scale;
+    ctx.drawImage(img, sx, sy, frameWidth, frameHeight, -w / 2, -h / 2, w, h);
   },
 
   /**
    * Draws a triangle on the canvas
    * @param ctx The canvas context to draw on
    * @param radius The radius of the triangle ( distance from center to vertex )
+   * @param p The particle parameters containing the stroke configuration
    */
-  triangle: (ctx, radius) => {
+  triangle: (ctx, radius, p) => {
     ctx.beginPath();
     ctx.moveTo(0, -radius);
     ctx.lineTo(radius, radius);
     ctx.lineTo(-radius, radius);
-    ctx.fill();
+    ctx.closePath();
+    paint(ctx, p);
   },
 
   /**
@@ -72,7 +206,7 @@ export const ShapeDrawers: Record<string, Drawer> = {
       ctx.lineTo(radius * Math.cos(a), radius * Math.sin(a));
     }
     ctx.closePath();
-    ctx.fill();
+    paint(ctx, p);
   },
 
   /**
@@ -92,16 +226,106 @@ export const ShapeDrawers: Record<string, Drawer> = {
       ctx.lineTo(r * Math.cos(a), r * Math.sin(a));
     }
     ctx.closePath();
-    ctx.fill();
+    paint(ctx, p);
+  },
+
+  /**
+   * Draws a character or emoji, sized so the glyph spans the particle's diameter.
+   * Glyphs are drawn from a shared sprite cache instead of rendering text every frame.
+   * @param ctx The canvas context to draw on
+   * @param radius The radius determining the font size
+   * @param p The particle parameters containing the characters and font
+   * @param state The particle's shape state, its seed picks the character
+   */
+  char: (ctx, radius, p, state) => {
+    const char = p.shape.char;
+    if (!char || radius <= 0) return;
+    const values = Array.isArray(char.value) ? char.value : [char.value];
+    if (!values.length) return;
+    const value = values[Math.floor(state.seed * values.length)];
+    const color = String(ctx.fillStyle);
+
+    // The char's own fill and stroke take priority over the shape's stroke
+    const stroke = char.stroke ?? p.shape.stroke;
+    const glyph = {
+      ...char,
+      fill: char.fill ?? !p.shape.stroke?.only,
+      stroke: stroke && { width: stroke.width, color: stroke.color ?? color },
+    };
+
+    // Render at the base size and the current pixel scale, then scale to the current radius
+    const { a, b } = ctx.getTransform();
+    const scale = Math.round(Math.hypot(a, b) * 100) / 100 || 1;
+    const size = p.size.value * 2;
+    const sprite = getGlyphSprite(value, size, scale, color, glyph);
+    const factor = (radius * 2) / size / scale;
+    const w = sprite.width * factor;
+    const h = sprite.height * factor;
+    ctx.drawImage(sprite, -w / 2, -h / 2, w, h);
   },
 
   /**
    * Draws an edge (rectangle) on the canvas
    * @param ctx The canvas context to draw on
    * @param radius The radius of the rectangle ( distance from center to vertex )
+   * @param p The particle parameters containing the stroke configuration
    */
-  edge: (ctx, radius) => {
+  edge: (ctx, radius, p) => {
     const size = radius * 2;
-    ctx.fillRect(-radius, -radius, size, size);
+    ctx.beginPath();
+    ctx.rect(-radius, -radius, size, size);
+    paint(ctx, p);
+  },
+
+  /**
+   * Draws an SVG path, scaled to fit the particle's diameter while keeping its aspect ratio
+   * @param ctx The canvas context to draw on
+   * @param radius The radius the path is fitted into
+   * @param p The particle parameters containing the path and stroke configuration
+   */
+  path: (ctx, radius, p) => {
+    const parsed = p.shape.path && getPath(p.shape.path);
+    if (!parsed || radius <= 0) return;
+
+    // Fit the viewBox into the particle's bounding square and center it
+    const [minX, minY, width, height] = parsed.viewBox;
+    const scale = (radius * 2) / Math.max(width, height, 1e-6);
+    ctx.save();
+    ctx.scale(scale, scale);
+    ctx.translate(-minX - width / 2, -minY - height / 2);
+    paint(ctx, p, parsed.path, scale);
+    ctx.restore();
   },
 };
+
+/**
+ * Shapes registered by users through registerShape, looked up by `shape.custom.name`.
+ */
+const CustomShapes = new Map<string, TShapeDrawer>();
+
+/**
+ * Registers a custom shape that particles can use with `shape: { type: "custom", custom: { name } }`.
+ * Register shapes before the particles are drawn, depth blur sprites are rendered once per particle.
+ * Registering an existing name replaces its drawer.
+ * @param name The name to refer to the shape by.
+ * @param drawer The function drawing the shape.
+ */
+export const registerShape = (name: string, drawer: TShapeDrawer) => {
+  CustomShapes.set(name, drawer);
+};
+
+/**
+ * Resolves the drawer for the configured shape.
+ * Unknown shapes and unregistered custom shapes fall back to a circle.
+ * @param shape The shape configuration.
+ * @returns The drawer to draw the shape with.
+ */
+export const getShapeDrawer = (
+  shape: Required<IParticleParams>["shape"],
+): TShapeDrawer => {
+  const drawer =
+    shape.type === "custom"
+      ? CustomShapes.get(shape.custom?.name ?? "")
+      : ShapeDrawers[shape.type];
+  return drawer || ShapeDrawers.circle;
+};
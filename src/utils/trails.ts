@@ -0,0 +1,72 @@
+import { Particle } from "../classes/Particle";
+import { IParticleParams } from "../types";
+
+/**
+ * Fades out the previous frame instead of clearing it, leaving afterimages behind moving particles.
+ * With a background color the canvas is painted towards it, otherwise it fades to transparent.
+ * @param config The engine configuration.
+ * @param width The logical width of the canvas.
+ * @param height The logical height of the canvas.
+ * @param ctx The 2D rendering context of the canvas.
+ */
+export const fadeFrame = (
+  config: Required<IParticleParams>,
+  width: number,
+  height: number,
+  ctx: CanvasRenderingContext2D,
+) => {
+  const { fade, background } = config.trail;
+
+  ctx.save();
+  ctx.globalAlpha = Math.min(Math.max(fade, 0), 1);
+  if (background) {
+    ctx.fillStyle = background;
+  } else {
+    // Erase a fraction of every pixel to keep the canvas transparent
+    ctx.globalCompositeOperation = "destination-out";
+    ctx.fillStyle = "#000";
+  }
+  ctx.fillRect(0, 0, width, height);
+  ctx.restore();
+};
+
+/**
+ * Draws the position history of every particle as a line that tapers and fades towards its tail.
+ * @param particles All particles currently in the engine.
+ * @param config The engine configuration.
+ * @param ctx The 2D rendering context of the canvas.
+ */
+export const drawTrails = (
+  particles: Particle[],
+  config: Required<IParticleParams>,
+  ctx: CanvasRenderingContext2D,
+) => {
+  const { opacity, width } = config.trail;
+
+  ctx.save();
+  ctx.lineCap = "round";
+
+  for (const p of particles) {
+    const history = p.history;
+    const len = history.length;
+    if (len < 2) continue;
+
+    ctx.strokeStyle = p.getColor();
+    const headWidth = width ?? p.radius * 2;
+
+    // Segments from the tail (oldest) to the head (newest), getting wider and more opaque
+    for (let i = 1; i < len; i++) {
+      const a = history[i - 1];
+      const b = history[i];
+      const t = i / len;
+      ctx.globalAlpha = opacity * p.opacity * t;
+      ctx.lineWidth = headWidth * t;
+      ctx.beginPath();
+      ctx.moveTo(a.x, a.y);
+      ctx.lineTo(b.x, b.y);
+      ctx.stroke();
+    }
+  }
+
+  ctx.restore();
+};